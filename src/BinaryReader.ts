@@ -1,22 +1,154 @@
-import pako from 'pako';
-import { CORE_TYPES } from './constants.js';
-import { Dictionary } from './dictionary.js';
-import { TLExtension } from './extension.js';
-import { float32, float64, int32, utf8Read } from './helpers.js';
-
-export interface BinaryReaderOptions {
-	dictionary?: string[] | Dictionary;
+import { TLCodec, deflateCodec, getCodec } from './codecs.js';
+import { CORE_TYPES, HAS_NODE_BUFFER, TYPED_ARRAY_TYPES } from './constants.js';
+import { DictionaryTable } from './dictionaryTable.js';
+import { MAX_BYTE_TOKEN, TLExtension, extensionMap } from './extension.js';
+import { LazyMap, LazyVector } from './lazy.js';
+import {
+	DictionaryMismatchError,
+	IncompleteDataError,
+	InvalidConstructorError,
+	LimitExceededError,
+	TLPackError,
+} from './errors.js';
+import { TLConstructor, TLType } from './schema.js';
+import {
+	ArrayViewConstructor,
+	TYPED_ARRAY_CONSTRUCTORS,
+	bigInt64,
+	bigUint64,
+	constructorName,
+	float32,
+	float64,
+	int32,
+	utf8Read,
+	withConstructor,
+	withPath,
+} from './helpers.js';
+
+/**
+ * Reference table and index of the next object, lazy views keep it
+ * to resolve references of values read later.
+ */
+export interface ReferenceScope {
+	references: any[];
+	index: number;
+}
+
+/**
+ * Object registered while skipping, it is read when a reference to it is resolved.
+ */
+class SkippedReference {
+	reader: BinaryReader;
+	offset: number;
+
+	constructor(reader: BinaryReader, offset: number) {
+		this.reader = reader;
+		this.offset = offset;
+	}
+}
+
+/**
+ * Placeholder of a class instance, which is created after its fields are decoded
+ */
+const DECODING_INSTANCE = {};
+
+/**
+ * How 64-bit integers are decoded:
+ * - `bigint` always returns a bigint
+ * - `number` returns a number when it is a safe integer, otherwise a bigint
+ * - `string` returns a decimal string
+ */
+export type Int64Mode = 'bigint' | 'number' | 'string';
+
+/**
+ * How binary data and typed arrays are decoded:
+ * - `view` returns a view over the source buffer when it is aligned, otherwise a copy
+ * - `copy` always returns a copy of the data
+ */
+export type BinaryMode = 'view' | 'copy';
+
+/**
+ * Limits against hostile input, exceeding any of them
+ * throws LimitExceededError. All of them are unlimited by default.
+ */
+export interface BinaryReaderLimits {
+	/**
+	 * Maximum depth of nested values
+	 */
+	maxDepth?: number;
+	/**
+	 * Maximum length of a string in bytes
+	 */
+	maxStringLength?: number;
+	/**
+	 * Maximum length of binary data and typed arrays in bytes
+	 */
+	maxBinaryLength?: number;
+	/**
+	 * Maximum count of vector and set items
+	 */
+	maxVectorLength?: number;
+	/**
+	 * Maximum count of map keys
+	 */
+	maxMapKeys?: number;
+	/**
+	 * Maximum count of dictionary values appended while decoding
+	 */
+	maxDictionarySize?: number;
+	/**
+	 * Maximum size of inflated data in bytes
+	 */
+	maxInflatedSize?: number;
+}
+
+const LIMIT_NAMES: Array<keyof BinaryReaderLimits> = [
+	'maxDepth',
+	'maxStringLength',
+	'maxBinaryLength',
+	'maxVectorLength',
+	'maxMapKeys',
+	'maxDictionarySize',
+	'maxInflatedSize',
+];
+
+export interface BinaryReaderOptions extends BinaryReaderLimits {
+	dictionary?: string[] | DictionaryTable;
+	/**
+	 * Static dictionaries by version, the one of the payload
+	 * dictionary header is used instead of `dictionary`
+	 */
+	dictionaries?: DictionaryTable[];
 	extensions?: TLExtension[];
+	constructors?: TLConstructor[];
+	int64?: Int64Mode;
+	binary?: BinaryMode;
+	/**
+	 * Resolve references written by BinaryWriter with `references` option
+	 */
+	references?: boolean;
 }
 
 export class BinaryReader {
 	private target: Buffer | Uint8Array;
 	private _last?: any;
 	private _lastObject?: any;
-	private dictionary?: Dictionary;
-	private dictionaryExtended: Dictionary;
+	private dictionary?: DictionaryTable;
+	/**
+	 * Dictionary of the options, restored after a header switched it
+	 */
+	private defaultDictionary: DictionaryTable;
+	private dictionaryExtended: DictionaryTable;
+	private dictionaries?: Map<number, DictionaryTable>;
 	private extensions: Map<number, TLExtension>;
+	private constructors: Map<number, TLConstructor>;
 	private _repeat?: { pool: number; value: any };
+	private int64Mode: Int64Mode;
+	private binaryMode: BinaryMode;
+	private limits: Required<BinaryReaderLimits>;
+	private depth: number;
+	private references?: any[];
+	private referenceIndex: number;
 	offset: number;
 	length: number;
 
@@ -28,25 +160,53 @@ export class BinaryReader {
 		this.target = data;
 		this.offset = 0;
 		this.length = data.length;
-		this.extensions = new Map();
+		this.extensions = extensionMap(options && options.extensions);
+		this.constructors = new Map();
+		this.int64Mode = (options && options.int64) || 'number';
+		this.binaryMode = (options && options.binary) || 'view';
+		this.depth = 0;
+		this.referenceIndex = 0;
+		this.limits = {} as Required<BinaryReaderLimits>;
+
+		if (options && options.references) {
+			this.references = [];
+		}
+
+		LIMIT_NAMES.forEach((name) => {
+			const value = options && options[name];
+			this.limits[name] = typeof value === 'number' ? value : Infinity;
+		});
 
-		if (options && options.extensions) {
-			options.extensions.forEach((ext) => {
-				this.extensions.set(ext.token, ext);
+		if (options && options.constructors) {
+			options.constructors.forEach((ctor) => {
+				this.constructors.set(ctor.id, ctor);
 			});
 		}
 
 		if (!options) {
-			this.dictionary = new Dictionary();
-		} else if (options.dictionary instanceof Dictionary) {
+			this.dictionary = new DictionaryTable();
+		} else if (options.dictionary instanceof DictionaryTable) {
 			this.dictionary = options.dictionary;
 		} else if (Array.isArray(options.dictionary)) {
-			this.dictionary = new Dictionary(options.dictionary);
+			this.dictionary = new DictionaryTable(options.dictionary);
 		} else {
-			this.dictionary = new Dictionary();
+			this.dictionary = new DictionaryTable();
 		}
 
-		this.dictionaryExtended = new Dictionary(undefined, this.dictionary.size);
+		this.defaultDictionary = this.dictionary;
+		this.dictionaryExtended = new DictionaryTable(undefined, this.dictionary.size);
+
+		if (options && options.dictionaries) {
+			this.dictionaries = new Map();
+
+			options.dictionaries.forEach((dictionary) => {
+				if (this.dictionaries!.has(dictionary.version)) {
+					throw new TypeError(`Duplicate dictionary version = ${dictionary.version}`);
+				}
+
+				this.dictionaries!.set(dictionary.version, dictionary);
+			});
+		}
 	}
 
 	readByte() {
@@ -96,6 +256,33 @@ export class BinaryReader {
 		return this._last as number;
 	}
 
+	/**
+	 * Reads a 64-bit integer (8 bytes) value.
+	 * @returns {bigint | number | string}
+	 */
+	readInt64(signed = true) {
+		this.assertRead(8);
+
+		int32[0] = this.readInt32();
+		int32[1] = this.readInt32();
+
+		const value = signed ? bigInt64[0] : bigUint64[0];
+
+		if (this.int64Mode === 'string') {
+			this._last = value.toString();
+		} else if (
+			this.int64Mode === 'number' &&
+			value >= Number.MIN_SAFE_INTEGER &&
+			value <= Number.MAX_SAFE_INTEGER
+		) {
+			this._last = Number(value);
+		} else {
+			this._last = value;
+		}
+
+		return this._last as bigint | number | string;
+	}
+
 	/**
 	 * Reads a real floating point (4 bytes) value.
 	 * @returns {number}
@@ -129,18 +316,14 @@ export class BinaryReader {
 	 */
 	assertRead(length: number) {
 		if (this.length < this.offset + +length) {
-			const left = this.target.length - this.offset;
-			const result = this.target.subarray(this.offset, this.offset + left);
+			const left = this.length - this.offset;
 
-			const err = new Error(
-				`No more data left to read (need ${length}, got ${left}: ${result}); last read ${this._last}`,
+			throw new IncompleteDataError(
+				`No more data left to read (need ${length}, got ${left})`,
+				this.offset,
+				undefined,
+				length - left,
 			);
-
-			(err as any).incomplete = true;
-
-			Error.captureStackTrace(err, this.assertRead);
-
-			throw err;
 		}
 	}
 
@@ -148,10 +331,12 @@ export class BinaryReader {
 		const byte = this.readByte();
 
 		if (byte !== constructorId) {
-			throw new Error(
-				`Invalid constructor code, expected = ${CORE_TYPES[constructorId]}, got = ${
-					CORE_TYPES[byte] || byte
-				}, offset = ${this.offset - 1}`,
+			throw new InvalidConstructorError(
+				`Invalid constructor code, expected = ${CORE_TYPES[constructorId]}, got = ${constructorName(
+					byte,
+				)}`,
+				this.offset - 1,
+				byte,
 			);
 		}
 	}
@@ -171,7 +356,11 @@ export class BinaryReader {
 			return null;
 		}
 
-		throw new Error(`Invalid boolean code ${value.toString(16)}`);
+		throw new InvalidConstructorError(
+			`Invalid null code ${value.toString(16)}`,
+			this.offset - 1,
+			value,
+		);
 	}
 
 	readLength() {
@@ -200,6 +389,8 @@ export class BinaryReader {
 	readBytes() {
 		const length = this.readLength();
 
+		this.assertLimit('maxBinaryLength', length);
+
 		this.assertRead(length);
 
 		const bytes = this.target.subarray(this.offset, this.offset + length);
@@ -211,6 +402,83 @@ export class BinaryReader {
 		return bytes;
 	}
 
+	/**
+	 * Reads a typed array, ArrayBuffer, DataView or Buffer.
+	 * @returns {ArrayBuffer | ArrayBufferView}
+	 */
+	readTypedArray(checkConstructor = true) {
+		if (checkConstructor) {
+			this.assertConstructor(CORE_TYPES.TypedArray);
+		}
+
+		const type: TYPED_ARRAY_TYPES = this.readByte();
+		const ctor = TYPED_ARRAY_CONSTRUCTORS[type];
+
+		if (!ctor) {
+			throw new InvalidConstructorError(
+				`Invalid typed array type = ${type}`,
+				this.offset - 1,
+				CORE_TYPES.TypedArray,
+			);
+		}
+
+		const length = this.readLength();
+
+		this.assertLimit('maxBinaryLength', length);
+
+		const padding = this.readByte();
+
+		this.assertRead(padding + length);
+
+		const start = this.offset + padding;
+		const byteOffset = this.target.byteOffset + start;
+		const view = this.binaryMode === 'view';
+
+		this.offset = start + length;
+
+		let buffer: ArrayBufferLike = this.target.buffer;
+		let bufferOffset = byteOffset;
+
+		const align =
+			type !== TYPED_ARRAY_TYPES.Buffer && 'BYTES_PER_ELEMENT' in ctor ? ctor.BYTES_PER_ELEMENT : 1;
+
+		if (!view || type === TYPED_ARRAY_TYPES.ArrayBuffer || byteOffset % align !== 0) {
+			const copy = new Uint8Array(length);
+			copy.set(this.target.subarray(start, start + length));
+			buffer = copy.buffer;
+			bufferOffset = 0;
+		}
+
+		let result: any;
+
+		switch (type) {
+			case TYPED_ARRAY_TYPES.ArrayBuffer: {
+				result = buffer;
+				break;
+			}
+
+			case TYPED_ARRAY_TYPES.Buffer: {
+				result = HAS_NODE_BUFFER
+					? Buffer.from(buffer, bufferOffset, length)
+					: new Uint8Array(buffer, bufferOffset, length);
+				break;
+			}
+
+			case TYPED_ARRAY_TYPES.DataView: {
+				result = new DataView(buffer, bufferOffset, length);
+				break;
+			}
+
+			default: {
+				result = new (ctor as ArrayViewConstructor)(buffer, bufferOffset, length / align);
+			}
+		}
+
+		this._last = result;
+
+		return result;
+	}
+
 	/**
 	 * Reads encoded string.
 	 * @returns {string}
@@ -218,6 +486,8 @@ export class BinaryReader {
 	readString() {
 		const length = this.readLength();
 
+		this.assertLimit('maxStringLength', length);
+
 		this.assertRead(length);
 
 		const result = utf8Read(this.target, length, this.offset);
@@ -241,7 +511,11 @@ export class BinaryReader {
 		} else if (value === CORE_TYPES.BoolFalse) {
 			return false;
 		} else {
-			throw new Error(`Invalid boolean code ${value.toString(16)}`);
+			throw new InvalidConstructorError(
+				`Invalid boolean code ${value.toString(16)}`,
+				this.offset - 1,
+				value,
+			);
 		}
 	}
 
@@ -269,33 +543,108 @@ export class BinaryReader {
 			}
 		}
 
+		// references are scoped by a top-level object
+		if (this.depth === 0) {
+			this.resetReferences();
+		}
+
 		const constructorId = this.readByte();
-		const ext = this.extensions.get(constructorId);
 
 		let value: any;
 
-		if (ext) {
-			value = ext.decode.call(this);
-		} else {
-			value = this._lastObject = this.readCore(constructorId);
+		try {
+			this.enter();
+
+			const ext = this.readExtension(constructorId);
+
+			if (ext) {
+				value = this.decodeExtension(ext);
+			} else {
+				value = this._lastObject = this.readCore(constructorId);
+			}
+		} catch (err) {
+			throw withConstructor(err, constructorId);
+		} finally {
+			this.depth--;
 		}
 
 		return value;
 	}
 
-	readObjectGzip() {
-		const bytes = this.readGzip();
+	readObjectGzip(constructorId: CORE_TYPES = CORE_TYPES.GZIP) {
+		const bytes = this.readGzip(constructorId);
 		const reader = new BinaryReader(bytes);
 
 		reader.extensions = this.extensions;
+		reader.constructors = this.constructors;
+		reader.int64Mode = this.int64Mode;
+		reader.binaryMode = this.binaryMode;
+		reader.limits = this.limits;
+		reader.depth = this.depth;
 		reader.dictionary = this.dictionary;
 		reader.dictionaryExtended = this.dictionaryExtended;
+		reader.references = this.references;
+		reader.referenceIndex = this.referenceIndex;
+
+		try {
+			return reader.readObject();
+		} finally {
+			this.references = reader.references;
+			this.referenceIndex = reader.referenceIndex;
+		}
+	}
+
+	/**
+	 * Reads and decompresses bytes of `CORE_TYPES.GZIP`,
+	 * or of `CORE_TYPES.Compressed` after the codec id.
+	 */
+	readGzip(constructorId: CORE_TYPES = CORE_TYPES.GZIP) {
+		let codec: TLCodec | undefined = deflateCodec;
+
+		if (constructorId === CORE_TYPES.Compressed) {
+			const id = this.readByte();
+
+			codec = getCodec(id);
+
+			if (!codec) {
+				throw new TLPackError(`Unknown codec = ${id}`, this.offset - 1, constructorId);
+			}
+		}
+
+		const bytes = this.readBytes();
 
-		return reader.readObject();
+		try {
+			return codec.decompress(bytes, this.limits.maxInflatedSize);
+		} catch (err) {
+			if (err instanceof LimitExceededError) {
+				throw new LimitExceededError(err.limit, err.value, err.max, this.offset);
+			}
+
+			throw new TLPackError((err as Error)?.message || String(err), this.offset, constructorId);
+		}
 	}
 
-	readGzip() {
-		return pako.inflateRaw(this.readBytes());
+	/**
+	 * Throws LimitExceededError when the value exceeds the limit.
+	 */
+	assertLimit(name: keyof BinaryReaderLimits, value: number) {
+		const max = this.limits[name];
+
+		if (value > max) {
+			throw new LimitExceededError(name, value, max, this.offset);
+		}
+	}
+
+	/**
+	 * Increments the depth, callers decrement it in `finally` even when the limit throws.
+	 */
+	private enter() {
+		this.assertLimit('maxDepth', ++this.depth);
+	}
+
+	private insertDictionary(value: string) {
+		this.dictionaryExtended.maybeInsert(value);
+		this.assertLimit('maxDictionarySize', this.dictionaryExtended.size);
 	}
 
 	private readCore(constructorId: CORE_TYPES) {
@@ -303,7 +652,8 @@ export class BinaryReader {
 			case CORE_TYPES.None:
 				return this.readObject();
 			case CORE_TYPES.GZIP:
-				return this.readObjectGzip();
+			case CORE_TYPES.Compressed:
+				return this.readObjectGzip(constructorId);
 			case CORE_TYPES.BoolTrue:
 				return true;
 			case CORE_TYPES.BoolFalse:
@@ -314,20 +664,32 @@ export class BinaryReader {
 				return this.readVectorDynamic(false);
 			case CORE_TYPES.Null:
 				return null;
-			case CORE_TYPES.Binary:
-				return this.readBytes();
+			case CORE_TYPES.Binary: {
+				const bytes = this.readBytes();
+
+				// a view over Node Buffer is a Buffer, the decoded value is a plain Uint8Array
+				return this.binaryMode === 'copy'
+					? new Uint8Array(bytes)
+					: new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+			}
+			case CORE_TYPES.TypedArray:
+				return this.readTypedArray(false);
 			case CORE_TYPES.String:
 				return this.readString();
 			case CORE_TYPES.Date:
 				return this.readDate();
 			case CORE_TYPES.Int32:
 				return this.readInt32();
+			case CORE_TYPES.Int64:
+				return this.readInt64();
 			case CORE_TYPES.Int16:
 				return this.readInt16();
 			case CORE_TYPES.Int8:
 				return this.readInt8();
 			case CORE_TYPES.UInt32:
 				return this.readInt32(false);
+			case CORE_TYPES.UInt64:
+				return this.readInt64(false);
 			case CORE_TYPES.UInt16:
 				return this.readInt16(false);
 			case CORE_TYPES.UInt8:
@@ -338,13 +700,19 @@ export class BinaryReader {
 				return this.readDouble();
 			case CORE_TYPES.Map:
 				return this.readMap(false);
+			case CORE_TYPES.Constructor:
+				return this.readConstructor(false);
+			case CORE_TYPES.JSMap:
+				return this.readJSMap(false);
+			case CORE_TYPES.JSSet:
+				return this.readJSSet(false);
 			case CORE_TYPES.DictIndex: {
 				const idx = this.readLength();
 				return this.getDictionaryValue(idx)!;
 			}
 			case CORE_TYPES.DictValue: {
 				const value = this.readString();
-				this.dictionaryExtended.maybeInsert(value);
+				this.insertDictionary(value);
 				return value;
 			}
 			case CORE_TYPES.Repeat: {
@@ -352,15 +720,151 @@ export class BinaryReader {
 				this._repeat = { pool: size - 1, value: this._lastObject };
 				return this._lastObject;
 			}
+			case CORE_TYPES.Ref:
+				return this.readReference();
+			case CORE_TYPES.Header:
+				this.readHeader();
+				return this.readObject();
 		}
 
-		throw new Error(
-			`Invalid constructor = ${CORE_TYPES[constructorId] || constructorId}, offset = ${
-				this.offset - 1
-			}`,
+		throw new InvalidConstructorError(
+			`Invalid constructor = ${constructorName(constructorId)}`,
+			this.offset - 1,
+			constructorId,
 		);
 	}
 
+	/**
+	 * Starts a new reference table, references are scoped by a top-level object.
+	 */
+	resetReferences() {
+		if (this.references) {
+			this.references = [];
+			this.referenceIndex = 0;
+		}
+	}
+
+	referenceScope(): ReferenceScope | undefined {
+		if (this.references) {
+			return { references: this.references, index: this.referenceIndex };
+		}
+	}
+
+	private addReference(value: any) {
+		if (this.references) {
+			this.references[this.referenceIndex++] = value;
+		}
+	}
+
+	/**
+	 * Registers the skipped object, keeping the object already read at its index.
+	 */
+	private addSkippedReference(offset: number) {
+		if (this.references) {
+			const index = this.referenceIndex++;
+
+			if (this.references[index] === undefined) {
+				this.references[index] = new SkippedReference(this, offset);
+			}
+		}
+	}
+
+	/**
+	 * Registers the lazy view at the index of the object it reads.
+	 */
+	private readLazyView<T>(read: () => T): T {
+		const index = this.referenceIndex;
+
+		if (this.references) {
+			this.referenceIndex++;
+		}
+
+		const view = read();
+
+		if (this.references) {
+			this.references[index] = view;
+		}
+
+		return view;
+	}
+
+	/**
+	 * Decodes the extension value, an instance of class extension is registered
+	 * as a reference, which is not resolved while its fields are decoded.
+	 */
+	private decodeExtension(ext: TLExtension) {
+		if (!ext.Class || !this.references) {
+			return ext.decode.call(this);
+		}
+
+		const index = this.referenceIndex++;
+
+		this.references[index] = DECODING_INSTANCE;
+
+		const value = ext.decode.call(this);
+
+		this.references[index] = value;
+
+		return value;
+	}
+
+	private readReference() {
+		const index = this.readLength();
+		const references = this.references;
+
+		if (!references || index >= references.length || references[index] === undefined) {
+			throw new TLPackError(`Unknown reference = ${index}`, this.offset - 1, CORE_TYPES.Ref);
+		}
+
+		const value = references[index];
+
+		if (value === DECODING_INSTANCE) {
+			throw new TLPackError(
+				`Circular reference to class instance = ${index}`,
+				this.offset - 1,
+				CORE_TYPES.Ref,
+			);
+		}
+
+		if (value instanceof SkippedReference) {
+			return value.reader.readLazyAt(value.offset, { references, index });
+		}
+
+		return value;
+	}
+
+	/**
+	 * Reads the dictionary header and verifies the static dictionary,
+	 * switches to the dictionary of the header version when registered.
+	 */
+	readHeader() {
+		const start = this.offset - 1;
+		const version = this.readLength();
+		const hash = this.readInt32(false);
+		const dictionary = (this.dictionaries && this.dictionaries.get(version)) || this.dictionary!;
+
+		if (dictionary.version !== version || dictionary.fingerprint !== hash) {
+			throw new DictionaryMismatchError(
+				version,
+				hash,
+				`Dictionary mismatch, payload version = ${version} hash = ${hash.toString(16)}, ` +
+					`reader version = ${dictionary.version} hash = ${dictionary.fingerprint.toString(16)}`,
+				start,
+			);
+		}
+
+		this.switchDictionary(dictionary);
+
+		return { version, hash };
+	}
+
+	private switchDictionary(dictionary: DictionaryTable) {
+		if (dictionary !== this.dictionary) {
+			this.dictionary = dictionary;
+			this.dictionaryExtended = new DictionaryTable(this.dictionaryExtended.values(), dictionary.size);
+		}
+	}
+
 	getDictionaryValue(index: number) {
 		let value;
 
@@ -375,6 +879,44 @@ export class BinaryReader {
 		return value;
 	}
 
+	getDictionaryIndex(value: string) {
+		let index;
+
+		if (this.dictionary) {
+			index = this.dictionary.getIndex(value);
+		}
+
+		if (index === undefined) {
+			index = this.dictionaryExtended.getIndex(value);
+		}
+
+		return index;
+	}
+
+	/**
+	 * Returns the extension of the constructor, the token
+	 * of `CORE_TYPES.Extension` is read from the buffer.
+	 */
+	readExtension(constructorId: number): TLExtension | undefined {
+		if (constructorId !== CORE_TYPES.Extension) {
+			return constructorId > MAX_BYTE_TOKEN ? undefined : this.extensions.get(constructorId);
+		}
+
+		const start = this.offset;
+		const token = this.readInt16(false);
+		const ext = token > MAX_BYTE_TOKEN ? this.extensions.get(token) : undefined;
+
+		if (!ext) {
+			throw new InvalidConstructorError(
+				`Unknown extension token = ${token}`,
+				start,
+				CORE_TYPES.Extension,
+			);
+		}
+
+		return ext;
+	}
+
 	readDictionary(): null | string {
 		const constructorId = this.readByte();
 
@@ -388,7 +930,7 @@ export class BinaryReader {
 			}
 			case CORE_TYPES.DictValue: {
 				key = this.readString();
-				this.dictionaryExtended.maybeInsert(key);
+				this.insertDictionary(key);
 				break;
 			}
 			case CORE_TYPES.None: {
@@ -410,27 +952,629 @@ export class BinaryReader {
 
 		const temp: Record<string, any> = {};
 
+		this.addReference(temp);
+
 		let key = this.readDictionary();
+		let count = 0;
 
 		while (key !== null) {
-			temp[key] = this.readObject();
+			this.assertLimit('maxMapKeys', ++count);
+
+			try {
+				temp[key] = this.readObject();
+			} catch (err) {
+				throw withPath(err, key);
+			}
+
 			key = this.readDictionary();
 		}
 
 		return temp;
 	}
 
-	decode(value: Buffer | Uint8Array) {
+	/**
+	 * Reads a TL-style constructor object.
+	 * @returns {object}
+	 */
+	readConstructor(checkConstructor = true) {
+		if (checkConstructor) {
+			this.assertConstructor(CORE_TYPES.Constructor);
+		}
+
+		const id = this.readInt32(false);
+		const ctor = this.constructors.get(id);
+
+		if (!ctor) {
+			throw new InvalidConstructorError(
+				`Unknown constructor id = 0x${id.toString(16)}`,
+				this.offset - 4,
+				CORE_TYPES.Constructor,
+			);
+		}
+
+		const temp: Record<string, any> = { _: ctor.name };
+
+		this.addReference(temp);
+
+		for (const field of ctor.fields) {
+			try {
+				temp[field.name] = this.readTyped(field.type);
+			} catch (err) {
+				throw withPath(err, field.name);
+			}
+		}
+
+		return temp;
+	}
+
+	/**
+	 * Reads a value of the schema type without constructor code.
+	 */
+	readTyped(type: TLType): any {
+		if (typeof type === 'object') {
+			const count = this.readLength();
+
+			this.assertLimit('maxVectorLength', count);
+
+			const temp = [];
+
+			for (let i = 0; i < count; i++) {
+				try {
+					temp.push(this.readTyped(type.vector));
+				} catch (err) {
+					throw withPath(err, i);
+				}
+			}
+
+			return temp;
+		}
+
+		switch (type) {
+			case 'object':
+				return this.readObject();
+			case 'bool':
+				return this.readBool();
+			case 'int8':
+				return this.readInt8();
+			case 'int16':
+				return this.readInt16();
+			case 'int32':
+				return this.readInt32();
+			case 'int64':
+				return this.readInt64();
+			case 'uint8':
+				return this.readInt8(false);
+			case 'uint16':
+				return this.readInt16(false);
+			case 'uint32':
+				return this.readInt32(false);
+			case 'uint64':
+				return this.readInt64(false);
+			case 'float':
+				return this.readFloat();
+			case 'double':
+				return this.readDouble();
+			case 'string':
+				return this.readString();
+			case 'bytes':
+				return this.readBytes();
+			case 'date':
+				return this.readDate();
+		}
+
+		throw new TypeError(`Unknown field type ${type}`);
+	}
+
+	/**
+	 * Reads an ES Map with keys of any encodable type.
+	 * @returns {Map}
+	 */
+	readJSMap(checkConstructor = true) {
+		if (checkConstructor) {
+			this.assertConstructor(CORE_TYPES.JSMap);
+		}
+
+		const count = this.readLength();
+
+		this.assertLimit('maxMapKeys', count);
+
+		const temp = new Map();
+
+		this.addReference(temp);
+
+		for (let i = 0; i < count; i++) {
+			try {
+				const key = this.readObject();
+				temp.set(key, this.readObject());
+			} catch (err) {
+				throw withPath(err, i);
+			}
+		}
+
+		return temp;
+	}
+
+	/**
+	 * Reads an ES Set.
+	 * @returns {Set}
+	 */
+	readJSSet(checkConstructor = true) {
+		if (checkConstructor) {
+			this.assertConstructor(CORE_TYPES.JSSet);
+		}
+
+		const count = this.readLength();
+
+		this.assertLimit('maxVectorLength', count);
+
+		const temp = new Set();
+
+		this.addReference(temp);
+
+		for (let i = 0; i < count; i++) {
+			try {
+				temp.add(this.readObject());
+			} catch (err) {
+				throw withPath(err, i);
+			}
+		}
+
+		return temp;
+	}
+
+	/**
+	 * Replaces the buffer and resets the position,
+	 * dictionary is kept to continue reading the same stream.
+	 */
+	setBuffer(value: Buffer | Uint8Array) {
 		this.target = value;
 		this._last = undefined;
 		this._lastObject = undefined;
 		this._repeat = undefined;
+		this.depth = 0;
 		this.offset = 0;
 		this.length = value.length;
+	}
+
+	/**
+	 * Forgets dictionary values appended while decoding.
+	 */
+	resetDictionary() {
+		this.dictionaryExtended = new DictionaryTable(undefined, this.dictionary!.size);
+	}
+
+	/**
+	 * Decodes the value, the dictionary switched by a header
+	 * of the previous value is not used.
+	 */
+	decode(value: Buffer | Uint8Array) {
+		this.setBuffer(value);
+		this.switchDictionary(this.defaultDictionary);
 
 		return this.readObject();
 	}
 
+	/**
+	 * Reads a object, maps and vectors are returned as lazy views
+	 * decoding their values only when accessed.
+	 */
+	readLazy(): any {
+		// references are scoped by a top-level object
+		if (this.depth === 0) {
+			this.resetReferences();
+		}
+
+		const constructorId = this.readByte();
+
+		switch (constructorId) {
+			case CORE_TYPES.Map:
+				return this.readLazyView(() => new LazyMap(this));
+			case CORE_TYPES.Vector:
+				return this.readLazyView(() => new LazyVector(this));
+			case CORE_TYPES.VectorDynamic:
+				return new LazyVector(this, true);
+			case CORE_TYPES.Header:
+				this.readHeader();
+				return this.readLazy();
+		}
+
+		this.seek(-1);
+
+		return this.readObject();
+	}
+
+	/**
+	 * Reads a lazy object at the offset, keeping the current position.
+	 * References are resolved from the scope recorded when the object was skipped.
+	 */
+	readLazyAt(offset: number, scope?: ReferenceScope): any {
+		const position = this.offset;
+		const depth = this.depth;
+		const references = this.references;
+		const referenceIndex = this.referenceIndex;
+		const lastObject = this._lastObject;
+		const repeat = this._repeat;
+
+		this.offset = offset;
+		// values of lazy views are nested in the top-level object
+		this.depth = 1;
+		this._lastObject = undefined;
+		this._repeat = undefined;
+
+		if (references && scope) {
+			this.references = scope.references;
+			this.referenceIndex = scope.index;
+		}
+
+		try {
+			return this.readLazy();
+		} finally {
+			this.offset = position;
+			this.depth = depth;
+			this.references = references;
+			this.referenceIndex = referenceIndex;
+			this._lastObject = lastObject;
+			this._repeat = repeat;
+		}
+	}
+
+	decodeLazy(value: Buffer | Uint8Array) {
+		this.setBuffer(value);
+		this.switchDictionary(this.defaultDictionary);
+
+		return this.readLazy();
+	}
+
+	/**
+	 * Skips a object without decoding it,
+	 * dictionary values are still registered.
+	 */
+	skipObject(): void {
+		const start = this.offset;
+		const constructorId = this.readByte();
+
+		try {
+			this.enter();
+			this.skipCore(constructorId, start);
+		} catch (err) {
+			throw withConstructor(err, constructorId);
+		} finally {
+			this.depth--;
+		}
+	}
+
+	private skipCore(constructorId: CORE_TYPES, start: number): void {
+		const ext = this.readExtension(constructorId);
+
+		if (ext && ext.fields) {
+			if (ext.Class) {
+				this.addSkippedReference(start);
+			}
+
+			return this.skipObject();
+		}
+
+		if (ext) {
+			this.decodeExtension(ext);
+			return;
+		}
+
+		switch (constructorId) {
+			case CORE_TYPES.None:
+				return this.skipObject();
+			case CORE_TYPES.Header:
+				this.readHeader();
+				return this.skipObject();
+			case CORE_TYPES.BoolTrue:
+			case CORE_TYPES.BoolFalse:
+			case CORE_TYPES.Null:
+				return;
+			case CORE_TYPES.GZIP:
+			case CORE_TYPES.Compressed:
+				return this.skipGzip(constructorId);
+			case CORE_TYPES.Vector:
+			case CORE_TYPES.JSSet: {
+				const start = this.offset - 1;
+				const count = this.readLength();
+				this.assertLimit('maxVectorLength', count);
+				this.addSkippedReference(start);
+				return this.skipValues(count);
+			}
+			case CORE_TYPES.VectorDynamic: {
+				let count = 0;
+
+				while (this.readByte() !== CORE_TYPES.None) {
+					this.assertLimit('maxVectorLength', ++count);
+					this.seek(-1);
+
+					// elements of dynamic vector are encoded separately
+					this.resetReferences();
+
+					try {
+						this.skipObject();
+					} catch (err) {
+						throw withPath(err, count - 1);
+					}
+				}
+				return;
+			}
+			case CORE_TYPES.Binary: {
+				const length = this.readLength();
+				this.assertLimit('maxBinaryLength', length);
+				return this.skip(length);
+			}
+			case CORE_TYPES.String: {
+				const length = this.readLength();
+				this.assertLimit('maxStringLength', length);
+				return this.skip(length);
+			}
+			case CORE_TYPES.DictValue:
+				this.insertDictionary(this.readString());
+				return;
+			case CORE_TYPES.DictIndex:
+				this.skipDictionaryIndex();
+				return;
+			case CORE_TYPES.Ref:
+				this.readLength();
+				return;
+			case CORE_TYPES.Repeat:
+				if (this.readLength() === 0) {
+					throw new TLPackError('Empty repeat', this.offset - 1, CORE_TYPES.Repeat);
+				}
+				return;
+			case CORE_TYPES.Date:
+			case CORE_TYPES.Double:
+			case CORE_TYPES.Int64:
+			case CORE_TYPES.UInt64:
+				return this.skip(8);
+			case CORE_TYPES.Int32:
+			case CORE_TYPES.UInt32:
+			case CORE_TYPES.Float:
+				return this.skip(4);
+			case CORE_TYPES.Int16:
+			case CORE_TYPES.UInt16:
+				return this.skip(2);
+			case CORE_TYPES.Int8:
+			case CORE_TYPES.UInt8:
+				return this.skip(1);
+			case CORE_TYPES.Map: {
+				let count = 0;
+
+				this.addSkippedReference(this.offset - 1);
+
+				let key = this.skipDictionary();
+
+				while (key !== null) {
+					this.assertLimit('maxMapKeys', ++count);
+
+					try {
+						this.skipObject();
+					} catch (err) {
+						throw withPath(err, key);
+					}
+
+					key = this.skipDictionary();
+				}
+				return;
+			}
+			case CORE_TYPES.JSMap: {
+				const start = this.offset - 1;
+				const count = this.readLength();
+				this.assertLimit('maxMapKeys', count);
+				this.addSkippedReference(start);
+				return this.skipValues(count * 2);
+			}
+			case CORE_TYPES.TypedArray: {
+				this.readByte();
+				const length = this.readLength();
+				this.assertLimit('maxBinaryLength', length);
+				return this.skip(this.readByte() + length);
+			}
+			case CORE_TYPES.Constructor: {
+				const start = this.offset - 1;
+				const id = this.readInt32(false);
+				const ctor = this.constructors.get(id);
+
+				if (!ctor) {
+					throw new InvalidConstructorError(
+						`Unknown constructor id = 0x${id.toString(16)}`,
+						this.offset - 4,
+						CORE_TYPES.Constructor,
+					);
+				}
+
+				this.addSkippedReference(start);
+
+				for (const field of ctor.fields) {
+					try {
+						this.skipTyped(field.type);
+					} catch (err) {
+						throw withPath(err, field.name);
+					}
+				}
+				return;
+			}
+		}
+
+		throw new InvalidConstructorError(
+			`Invalid constructor = ${constructorName(constructorId)}`,
+			this.offset - 1,
+			constructorId,
+		);
+	}
+
+	/**
+	 * Skips the given count of values, a repeat token counts as repeated values.
+	 */
+	private skipValues(count: number) {
+		let i = 0;
+
+		while (i < count) {
+			if (this.readByte() === CORE_TYPES.Repeat) {
+				const size = this.readLength();
+
+				if (i === 0 || size === 0 || i + size > count) {
+					throw new TLPackError(
+						`Invalid repeat of ${size} values at index ${i} of ${count}`,
+						this.offset - 1,
+						CORE_TYPES.Repeat,
+					);
+				}
+
+				i += size;
+			} else {
+				this.seek(-1);
+
+				try {
+					this.skipObject();
+				} catch (err) {
+					throw withPath(err, i);
+				}
+
+				i++;
+			}
+		}
+	}
+
+	/**
+	 * Reads a key of Map like `readDictionary`, but rejects
+	 * unknown indexes and constructors. Returns null at the end of Map.
+	 */
+	private skipDictionary(): null | string {
+		const constructorId = this.readByte();
+
+		switch (constructorId) {
+			case CORE_TYPES.DictIndex:
+				return this.skipDictionaryIndex();
+			case CORE_TYPES.DictValue: {
+				const key = this.readString();
+				this.insertDictionary(key);
+				return key;
+			}
+			case CORE_TYPES.None:
+				return null;
+		}
+
+		throw new InvalidConstructorError(
+			`Invalid key constructor = ${constructorName(constructorId)}`,
+			this.offset - 1,
+			constructorId,
+		);
+	}
+
+	private skipDictionaryIndex() {
+		const start = this.offset - 1;
+		const idx = this.readLength();
+		const value = this.getDictionaryValue(idx);
+
+		if (value === undefined) {
+			throw new TLPackError(
+				`Unknown dictionary index = ${idx}`,
+				start,
+				CORE_TYPES.DictIndex,
+			);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Inflates compressed object and skips it, compressed data
+	 * must contain exactly one object.
+	 */
+	private skipGzip(constructorId: CORE_TYPES) {
+		const bytes = this.readGzip(constructorId);
+		const reader = new BinaryReader(bytes);
+
+		reader.extensions = this.extensions;
+		reader.constructors = this.constructors;
+		reader.limits = this.limits;
+		reader.depth = this.depth;
+		reader.int64Mode = this.int64Mode;
+		reader.binaryMode = this.binaryMode;
+		reader.dictionary = this.dictionary;
+		reader.dictionaryExtended = this.dictionaryExtended;
+		// skipped objects keep the inflated reader to be read by reference
+		reader.references = this.references;
+		reader.referenceIndex = this.referenceIndex;
+
+		try {
+			reader.skipObject();
+		} finally {
+			this.references = reader.references;
+			this.referenceIndex = reader.referenceIndex;
+		}
+
+		if (reader.offset !== reader.length) {
+			throw new TLPackError(
+				`Unexpected ${reader.length - reader.offset} bytes after compressed object`,
+				this.offset,
+				constructorId,
+			);
+		}
+	}
+
+	/**
+	 * Skips a value of the schema type without constructor code.
+	 */
+	private skipTyped(type: TLType): void {
+		if (typeof type === 'object') {
+			const count = this.readLength();
+
+			this.assertLimit('maxVectorLength', count);
+
+			for (let i = 0; i < count; i++) {
+				try {
+					this.skipTyped(type.vector);
+				} catch (err) {
+					throw withPath(err, i);
+				}
+			}
+
+			return;
+		}
+
+		switch (type) {
+			case 'object':
+				return this.skipObject();
+			case 'bool':
+				this.readBool();
+				return;
+			case 'int8':
+			case 'uint8':
+				return this.skip(1);
+			case 'int16':
+			case 'uint16':
+				return this.skip(2);
+			case 'int32':
+			case 'uint32':
+			case 'float':
+				return this.skip(4);
+			case 'int64':
+			case 'uint64':
+			case 'double':
+			case 'date':
+				return this.skip(8);
+			case 'string': {
+				const length = this.readLength();
+				this.assertLimit('maxStringLength', length);
+				return this.skip(length);
+			}
+			case 'bytes': {
+				const length = this.readLength();
+				this.assertLimit('maxBinaryLength', length);
+				return this.skip(length);
+			}
+		}
+
+		throw new TypeError(`Unknown field type ${type}`);
+	}
+
+	private skip(length: number) {
+		this.assertRead(length);
+		this.offset += length;
+	}
+
 	/**
 	 * Reads a vector (a list) of objects.
 	 * @returns {any[]}
@@ -441,10 +1585,19 @@ export class BinaryReader {
 		}
 
 		const count = this.readLength();
-		const temp = [];
+
+		this.assertLimit('maxVectorLength', count);
+
+		const temp: any[] = [];
+
+		this.addReference(temp);
 
 		for (let i = 0; i < count; i++) {
-			temp.push(this.readObject());
+			try {
+				temp.push(this.readObject());
+			} catch (err) {
+				throw withPath(err, i);
+			}
 		}
 
 		return temp;
@@ -471,25 +1624,38 @@ export class BinaryReader {
 				break;
 			}
 
-			const ext = this.extensions.get(constructorId);
+			this.assertLimit('maxVectorLength', temp.length + 1);
 
 			let value: any;
 
-			if (ext) {
-				value = ext.decode.call(this);
-			} else {
-				value = this.readCore(constructorId);
+			// elements of dynamic vector are encoded separately
+			this.resetReferences();
+
+			try {
+				this.enter();
+
+				const ext = this.readExtension(constructorId);
+
+				if (ext) {
+					value = this.decodeExtension(ext);
+				} else {
+					value = this.readCore(constructorId);
+				}
+			} catch (err) {
+				throw withPath(withConstructor(err, constructorId), temp.length);
+			} finally {
+				this.depth--;
 			}
 
 			temp.push(value);
 		}
 
 		if (!complete) {
-			const err = new Error(`DynamicVector incomplete.`);
-			(err as any).incomplete = true;
-			Error.captureStackTrace(err, this.readDictionary);
-
-			throw err;
+			throw new IncompleteDataError(
+				'DynamicVector incomplete',
+				this.offset,
+				CORE_TYPES.VectorDynamic,
+			);
 		}
 
 		this._last = temp;
@@ -1,63 +1,170 @@
-import pako from 'pako';
+import { TLCodec, deflateCodec, getCodec } from './codecs.js';
 import { CORE_TYPES, MAX_BUFFER_SIZE } from './constants.js';
-import { Dictionary } from './dictionary.js';
-import { TLExtension } from './extension.js';
+import { DictionaryTable } from './dictionaryTable.js';
+import { UnsupportedTypeError } from './errors.js';
+import { MAX_BYTE_TOKEN, TLExtension, extensionMap } from './extension.js';
+import { TLConstructor, TLType } from './schema.js';
 import {
+	bigInt64,
+	bigUint64,
 	byteArrayAllocate,
 	coreType,
 	float32,
 	float64,
 	int32,
+	typedArrayType,
 	utf8Write,
 	utf8WriteShort,
+	withConstructor,
+	withPath,
 } from './helpers.js';
 
 const noop = Symbol();
 
 export interface BinaryWriterOptions {
 	gzip?: boolean;
-	dictionary?: string[] | Dictionary;
+	/**
+	 * Codec name or codec of compressed values, enables compression.
+	 * Defaults to `deflate` written as `CORE_TYPES.GZIP`
+	 */
+	codec?: string | TLCodec;
+	compressionLevel?: number;
+	/**
+	 * Enables adaptive compression of strings, binaries, maps and vectors
+	 * encoded into at least this count of bytes, instead of every string
+	 */
+	compressThreshold?: number;
+	/**
+	 * Compressed form is kept when its size is at most this part
+	 * of the encoded size. Defaults to 0.9
+	 */
+	compressRatio?: number;
+	dictionary?: string[] | DictionaryTable;
+	/**
+	 * Prefix encoded objects with version and hash of the static
+	 * dictionary, so a reader detects a different dictionary
+	 */
+	fingerprint?: boolean;
 	extensions?: TLExtension[];
+	constructors?: TLConstructor[];
+	/**
+	 * Write repeated objects as references to the first occurrence,
+	 * preserves shared and circular objects
+	 */
+	references?: boolean;
 }
 
 const NO_CONSTRUCTOR = new Set([CORE_TYPES.BoolFalse, CORE_TYPES.BoolTrue, CORE_TYPES.Null]);
 
 const SUPPORT_COMPRESSION = new Set([CORE_TYPES.String]);
 
+const ADAPTIVE_COMPRESSION = new Set([
+	CORE_TYPES.String,
+	CORE_TYPES.Binary,
+	CORE_TYPES.TypedArray,
+	CORE_TYPES.Map,
+	CORE_TYPES.Vector,
+	CORE_TYPES.JSMap,
+	CORE_TYPES.JSSet,
+	CORE_TYPES.Constructor,
+]);
+
+const REFERENCE_TYPES = new Set([
+	CORE_TYPES.Map,
+	CORE_TYPES.Vector,
+	CORE_TYPES.JSMap,
+	CORE_TYPES.JSSet,
+	CORE_TYPES.Constructor,
+]);
+
 export class BinaryWriter {
 	private withGzip: boolean;
+	private withFingerprint: boolean;
+	private codec: TLCodec;
+	private compressionLevel?: number;
+	private compressThreshold?: number;
+	private compressRatio: number;
 	private target: Buffer | Uint8Array;
-	private dictionary?: Dictionary;
-	private dictionaryExtended: Dictionary;
+	private dictionary?: DictionaryTable;
+	private dictionaryExtended: DictionaryTable;
 	private extensions: Map<number, TLExtension>;
+	private constructors: Map<string, TLConstructor>;
+	private classes: Map<object, TLExtension | null>;
+	private predicates: TLExtension[];
 	private _last: any = noop;
 	private _repeat?: { offset: number; count: number };
+	private references?: Map<any, number>;
+	/**
+	 * Class instances being encoded, a reference to them is circular
+	 */
+	private encodingInstances?: Set<object>;
+	private depth: number;
 	offset: number;
 
 	constructor(options?: BinaryWriterOptions) {
 		this.offset = 0;
-		this.extensions = new Map();
-		this.withGzip = !!options && !!options.gzip;
+		this.depth = 0;
+		this.extensions = extensionMap(options && options.extensions);
+		this.constructors = new Map();
+		this.classes = new Map();
+		this.predicates = [];
+		this.withGzip = !!options && (!!options.gzip || !!options.codec);
+		this.withFingerprint = !!options && !!options.fingerprint;
+		this.codec = deflateCodec;
+		this.compressRatio = (options && options.compressRatio) || 0.9;
+
+		if (options && options.compressThreshold !== undefined) {
+			this.withGzip = true;
+			this.compressThreshold = options.compressThreshold;
+		}
+
+		if (options && options.codec) {
+			const codec =
+				typeof options.codec === 'string' ? getCodec(options.codec) : options.codec;
+
+			if (!codec) {
+				throw new TypeError(`Unknown codec ${options.codec}`);
+			}
+
+			this.codec = codec;
+		}
+
+		if (options && options.compressionLevel !== undefined) {
+			this.compressionLevel = options.compressionLevel;
+		}
+
+		if (options && options.references) {
+			this.references = new Map();
+			this.encodingInstances = new Set();
+		}
 
 		this.target = byteArrayAllocate(8192);
 
-		if (options && options.extensions) {
-			options.extensions.forEach((ext) => {
-				this.extensions.set(ext.token, ext);
+		this.extensions.forEach((ext) => {
+			if (ext.Class) {
+				this.classes.set(ext.Class.prototype, ext);
+			} else if (ext.test) {
+				this.predicates.push(ext);
+			}
+		});
+
+		if (options && options.constructors) {
+			options.constructors.forEach((ctor) => {
+				this.constructors.set(ctor.name, ctor);
 			});
 		}
 
 		if (!options) {
-			this.dictionary = new Dictionary();
-		} else if (options.dictionary instanceof Dictionary) {
+			this.dictionary = new DictionaryTable();
+		} else if (options.dictionary instanceof DictionaryTable) {
 			this.dictionary = options.dictionary;
 		} else if (Array.isArray(options.dictionary)) {
-			this.dictionary = new Dictionary(options.dictionary);
+			this.dictionary = new DictionaryTable(options.dictionary);
 		} else {
-			this.dictionary = new Dictionary();
+			this.dictionary = new DictionaryTable();
 		}
 
-		this.dictionaryExtended = new Dictionary(undefined, this.dictionary.size);
+		this.dictionaryExtended = new DictionaryTable(undefined, this.dictionary.size);
 	}
 
 	allocate(size: number) {
@@ -141,6 +248,19 @@ export class BinaryWriter {
 		}
 	}
 
+	writeInt64(value: number | bigint, signed = true) {
+		this.allocate(8);
+
+		if (signed) {
+			bigInt64[0] = BigInt(value);
+		} else {
+			bigUint64[0] = BigInt(value);
+		}
+
+		this.writeInt32(int32[0], false);
+		this.writeInt32(int32[1], false);
+	}
+
 	writeInt16(value: number, signed = true) {
 		this.allocate(2);
 
@@ -228,6 +348,37 @@ export class BinaryWriter {
 		this.offset += length;
 	}
 
+	writeTypedArray(value: ArrayBuffer | ArrayBufferView) {
+		const type = typedArrayType(value);
+
+		if (type === undefined) {
+			throw new UnsupportedTypeError(`Unsupported typed array ${value}`, this.offset);
+		}
+
+		const bytes = ArrayBuffer.isView(value)
+			? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+			: new Uint8Array(value);
+
+		const align = 'BYTES_PER_ELEMENT' in value ? (value.BYTES_PER_ELEMENT as number) : 1;
+		const length = bytes.length;
+
+		this.writeByte(type);
+		this.writeLength(length);
+
+		// pad data to the element size, so reader is able to return a view
+		const padding = (align - ((this.offset + 1) % align)) % align;
+
+		this.writeByte(padding);
+		this.allocate(padding + length);
+
+		for (let i = 0; i < padding; i++) {
+			this.target[this.offset++] = 0;
+		}
+
+		this.target.set(bytes, this.offset);
+		this.offset += length;
+	}
+
 	writeLength(value: number) {
 		if (value < 254) {
 			this.allocate(1);
@@ -246,10 +397,10 @@ export class BinaryWriter {
 		this.writeLength(length);
 
 		for (let i = 0; i < length; i++) {
-			if (value[i] === undefined) {
-				this.writeNull();
-			} else {
-				this.writeObject(value[i]);
+			try {
+				this.writeObject(value[i] === undefined ? null : value[i]);
+			} catch (err) {
+				throw withPath(err, i);
 			}
 		}
 	}
@@ -260,12 +411,133 @@ export class BinaryWriter {
 
 			this._last = noop;
 			this.wireDictionary(key);
-			this.writeObject(object[key]);
+
+			try {
+				this.writeObject(object[key]);
+			} catch (err) {
+				throw withPath(err, key);
+			}
 		}
 
 		this.writeByte(CORE_TYPES.None);
 	}
 
+	writeJSMap(value: Map<any, any>) {
+		this.writeLength(value.size);
+
+		let i = 0;
+
+		for (const [key, item] of value) {
+			try {
+				this.writeObject(key === undefined ? null : key);
+				this.writeObject(item === undefined ? null : item);
+			} catch (err) {
+				throw withPath(err, i);
+			}
+
+			i++;
+		}
+	}
+
+	writeJSSet(value: Set<any>) {
+		this.writeLength(value.size);
+
+		let i = 0;
+
+		for (const item of value) {
+			try {
+				this.writeObject(item === undefined ? null : item);
+			} catch (err) {
+				throw withPath(err, i);
+			}
+
+			i++;
+		}
+	}
+
+	writeConstructor(value: Record<string, any>) {
+		const ctor = this.constructors.get(value._);
+
+		if (!ctor) {
+			throw new UnsupportedTypeError(`Unknown constructor ${value._}`, this.offset);
+		}
+
+		this.writeInt32(ctor.id, false);
+
+		for (const field of ctor.fields) {
+			try {
+				this.writeTyped(field.type, value[field.name], field.name);
+			} catch (err) {
+				throw withPath(err, field.name);
+			}
+		}
+	}
+
+	/**
+	 * Writes a value of the schema type without constructor code.
+	 */
+	writeTyped(type: TLType, value: any, name = 'value') {
+		if (typeof type === 'object') {
+			if (!Array.isArray(value)) {
+				throw new UnsupportedTypeError(
+					`Field ${name} must be an array, got ${value}`,
+					this.offset,
+				);
+			}
+
+			this.writeLength(value.length);
+
+			for (let i = 0; i < value.length; i++) {
+				try {
+					this.writeTyped(type.vector, value[i], name);
+				} catch (err) {
+					throw withPath(err, i);
+				}
+			}
+
+			return;
+		}
+
+		if (type === 'object') {
+			return this.writeObject(value === undefined ? null : value);
+		}
+
+		if (value === undefined || value === null) {
+			throw new UnsupportedTypeError(`Field ${name} of type ${type} is required`, this.offset);
+		}
+
+		switch (type) {
+			case 'bool':
+				return this.writeBool(value);
+			case 'int8':
+				return this.writeInt8(value);
+			case 'int16':
+				return this.writeInt16(value);
+			case 'int32':
+				return this.writeInt32(value);
+			case 'int64':
+				return this.writeInt64(value);
+			case 'uint8':
+				return this.writeInt8(value, false);
+			case 'uint16':
+				return this.writeInt16(value, false);
+			case 'uint32':
+				return this.writeInt32(value, false);
+			case 'uint64':
+				return this.writeInt64(value, false);
+			case 'float':
+				return this.writeFloat(value);
+			case 'double':
+				return this.writeDouble(value);
+			case 'string':
+				return this.writeString(value);
+			case 'bytes':
+				return this.writeBytes(value);
+			case 'date':
+				return this.writeDate(value);
+		}
+	}
+
 	wireDictionary(value: string) {
 		let idx;
 
@@ -286,21 +558,86 @@ export class BinaryWriter {
 	}
 
 	writeGzip(value: any) {
-		const compressed = pako.deflateRaw(value, { level: 9 });
+		const compressed = deflateCodec.compress(value, this.compressionLevel);
 		this.writeBytes(compressed);
 	}
 
+	/**
+	 * Writes codec id and bytes compressed by the codec.
+	 */
+	writeCompressed(value: Uint8Array) {
+		this.writeByte(this.codec.id);
+		this.writeBytes(this.codec.compress(value, this.compressionLevel));
+	}
+
+	/**
+	 * Forgets the last written value, so the next equal value
+	 * is written as is instead of a repeat.
+	 */
+	resetRepeat() {
+		this._last = noop;
+		this._repeat = undefined;
+	}
+
+	/**
+	 * Forgets dictionary values appended while encoding.
+	 */
+	resetDictionary() {
+		this.dictionaryExtended = new DictionaryTable(undefined, this.dictionary!.size);
+	}
+
+	/**
+	 * Count of dictionary values appended while encoding.
+	 */
+	get dictionarySize() {
+		return this.dictionaryExtended.size;
+	}
+
+	/**
+	 * Forgets dictionary values appended after the given count,
+	 * used when an encoded value is not sent.
+	 */
+	truncateDictionary(size: number) {
+		this.dictionaryExtended.truncate(size);
+	}
+
+	/**
+	 * Encodes the value from the start of the buffer, dictionary
+	 * values appended by a failed encoding are forgotten.
+	 */
 	encode(value: any) {
+		const dictionarySize = this.dictionaryExtended.size;
+
 		this.offset = 0;
 		this._last = noop;
 		this._repeat = undefined;
 		this.target = byteArrayAllocate(256);
 
-		this.writeObject(value);
+		try {
+			if (this.withFingerprint) {
+				this.writeHeader();
+			}
+
+			this.writeObject(value);
+		} catch (err) {
+			this.dictionaryExtended.truncate(dictionarySize);
+			this.offset = 0;
+			throw err;
+		}
 
 		return this.getBuffer();
 	}
 
+	/**
+	 * Writes version and fingerprint of the static dictionary,
+	 * the header precedes an object.
+	 */
+	writeHeader() {
+		this.writeByte(CORE_TYPES.Header);
+		this.writeLength(this.dictionary!.version);
+		this.writeInt32(this.dictionary!.fingerprint, false);
+	}
+
 	startDynamicVector() {
 		this.writeByte(CORE_TYPES.VectorDynamic);
 	}
@@ -309,49 +646,209 @@ export class BinaryWriter {
 		this.writeByte(CORE_TYPES.None);
 	}
 
-	private _writeCustom(value: any) {
-		const start = this.offset;
+	/**
+	 * Finds extension of the value class by exact prototype,
+	 * then by instanceof, the result is cached by prototype.
+	 */
+	private findClass(value: object) {
+		const proto = Object.getPrototypeOf(value);
 
-		this.allocate(1);
+		let ext = this.classes.get(proto);
+
+		if (ext !== undefined) {
+			return ext;
+		}
+
+		ext = null;
+
+		for (const item of this.classes.values()) {
+			if (item && value instanceof item.Class!) {
+				ext = item;
+				break;
+			}
+		}
 
-		this.offset++;
+		this.classes.set(proto, ext);
+
+		return ext;
+	}
+
+	/**
+	 * Writes the class instance, with references a repeated instance
+	 * is written as a reference. Instances are created from decoded fields,
+	 * so a reference from the fields to the instance itself is not supported.
+	 */
+	private writeInstance(ext: TLExtension, value: object) {
+		if (this.references) {
+			const index = this.references.get(value);
+
+			if (index !== undefined) {
+				if (this.encodingInstances!.has(value)) {
+					throw new UnsupportedTypeError(
+						`Circular reference to instance of extension ${ext.token}`,
+						this.offset,
+					);
+				}
+
+				this.writeCore(CORE_TYPES.Ref, index);
+				this._last = value;
+				this._repeat = undefined;
+				return;
+			}
+
+			this.references.set(value, this.references.size);
+			this.encodingInstances!.add(value);
+		}
+
+		try {
+			if (!this.encodeExtension(ext, value)) {
+				throw new UnsupportedTypeError(
+					`Extension ${ext.token} did not encode ${value}`,
+					this.offset,
+				);
+			}
+		} finally {
+			if (this.encodingInstances) {
+				this.encodingInstances.delete(value);
+			}
+		}
+	}
+
+	private _writeCustom(value: any) {
+		const ext = this.predicates.find((item) => item.test!(value));
+
+		if (ext) {
+			if (!this.encodeExtension(ext, value)) {
+				throw new UnsupportedTypeError(
+					`Extension ${ext.token} did not encode ${value}`,
+					this.offset,
+				);
+			}
+
+			return true;
+		}
 
 		let edgeExt;
 
+		// extensions without test or Class are tried by written bytes
 		for (const ext of this.extensions.values()) {
+			if (ext.Class || ext.test) continue;
+
 			if (ext.token === -1) {
 				edgeExt = ext;
 				continue;
 			}
 
-			ext.encode.call(this, value);
+			if (this.encodeExtension(ext, value)) {
+				return true;
+			}
+		}
+
+		if (edgeExt) {
+			return this.encodeExtension(edgeExt, value);
+		}
 
-			const processed = start + 1 < this.offset;
+		return false;
+	}
 
-			if (processed) {
-				const end = this.offset;
-				this.offset = start;
-				this.writeByte(ext.token);
-				this.offset = end;
+	/**
+	 * Writes the token and calls the extension encoder, returns false
+	 * when nothing is encoded. Bytes, dictionary values and references
+	 * written by a failed encoder are rolled back.
+	 */
+	private encodeExtension(ext: TLExtension, value: any) {
+		const start = this.offset;
+		const header = ext.token === -1 ? 0 : ext.token > MAX_BYTE_TOKEN ? 3 : 1;
+		const last = this._last;
+		const repeat = this._repeat;
+		const words = this.dictionaryExtended.size;
+		const references = this.references ? this.references.size : 0;
 
-				return true;
+		this.allocate(header);
+		this.offset = start + header;
+
+		// the encoder does not continue a repeat of the previous value
+		this.resetRepeat();
+
+		// values written by the encoder are nested, as the reader decodes them
+		this.depth++;
+
+		try {
+			ext.encode.call(this, value);
+		} catch (err) {
+			this.offset = start;
+			this._last = last;
+			this._repeat = repeat;
+			this.dictionaryExtended.truncate(words);
+
+			if (this.references) {
+				this.references.forEach((index, key) => {
+					if (index >= references) this.references!.delete(key);
+				});
 			}
+
+			throw err;
+		} finally {
+			this.depth--;
 		}
 
-		this.offset = start;
+		if (this.offset === start + header) {
+			this.offset = start;
+			this._last = last;
+			this._repeat = repeat;
+			return false;
+		}
 
-		if (edgeExt) {
-			edgeExt.encode.call(this, value);
-			return start < this.offset;
+		if (header) {
+			const end = this.offset;
+
+			this.offset = start;
+			this.writeToken(ext.token);
+			this.offset = end;
 		}
 
-		return false;
+		return true;
+	}
+
+	/**
+	 * Writes the extension token, tokens above 8 bits
+	 * are prefixed by `CORE_TYPES.Extension`.
+	 */
+	private writeToken(token: number) {
+		if (token > MAX_BYTE_TOKEN) {
+			this.writeByte(CORE_TYPES.Extension);
+			this.writeInt16(token, false);
+		} else {
+			this.writeByte(token);
+		}
 	}
 
 	writeObject(value: any) {
 		if (value === undefined) return;
 
-		const constructorId = coreType(value);
+		// references are scoped by a top-level object
+		if (this.references && this.depth === 0) {
+			this.references.clear();
+		}
+
+		if (this.classes.size && typeof value === 'object' && value !== null) {
+			const ext = this.findClass(value);
+
+			if (ext) {
+				this.writeInstance(ext, value);
+				return;
+			}
+		}
+
+		let constructorId = coreType(value);
+
+		if (
+			constructorId === CORE_TYPES.Map &&
+			this.constructors.size &&
+			this.constructors.has(value._)
+		) {
+			constructorId = CORE_TYPES.Constructor;
+		}
 
 		// console.log('write', {
 		// 	offset: this.offset,
@@ -364,7 +861,20 @@ export class BinaryWriter {
 				return;
 			}
 
-			throw new TypeError(`Invalid core type of ${value}`);
+			throw new UnsupportedTypeError(`Invalid core type of ${value}`, this.offset);
+		}
+
+		if (this.references && REFERENCE_TYPES.has(constructorId)) {
+			const index = this.references.get(value);
+
+			if (index !== undefined) {
+				this.writeCore(CORE_TYPES.Ref, index);
+				this._last = value;
+				this._repeat = undefined;
+				return;
+			}
+
+			this.references.set(value, this.references.size);
 		}
 
 		if (this._last === value) {
@@ -372,7 +882,26 @@ export class BinaryWriter {
 		} else {
 			this._last = value;
 			this._repeat = undefined;
-			this.writeCore(constructorId, value);
+			this.depth++;
+
+			const start = this.offset;
+
+			try {
+				this.writeCore(constructorId, value);
+
+				if (ADAPTIVE_COMPRESSION.has(constructorId)) {
+					this.compressFrom(start);
+				}
+			} catch (err) {
+				throw withConstructor(err, constructorId);
+			} finally {
+				this.depth--;
+			}
+
+			// nested values of vectors and maps overwrite the repeat state,
+			// while the reader tracks the outer value
+			this._last = value;
+			this._repeat = undefined;
 		}
 	}
 
@@ -380,15 +909,65 @@ export class BinaryWriter {
 		const writer = new BinaryWriter();
 
 		writer.extensions = this.extensions;
+		writer.constructors = this.constructors;
+		writer.classes = this.classes;
+		writer.predicates = this.predicates;
 		writer.dictionary = this.dictionary;
 		writer.dictionaryExtended = this.dictionaryExtended;
+		writer.references = this.references;
+		writer.encodingInstances = this.encodingInstances;
+		writer.depth = this.depth;
 
 		writer.writeObject(value);
-		this.writeCore(CORE_TYPES.GZIP, writer.getBuffer());
+
+		// deflate keeps the original token
+		this.writeCore(
+			this.codec === deflateCodec ? CORE_TYPES.GZIP : CORE_TYPES.Compressed,
+			writer.getBuffer(),
+		);
+	}
+
+	/**
+	 * Replaces the object written from the start offset by its compressed
+	 * form in adaptive mode, when the object reaches the threshold and
+	 * compressed size meets the ratio.
+	 */
+	compressFrom(start: number) {
+		const size = this.offset - start;
+
+		if (this.compressThreshold === undefined || size < this.compressThreshold) {
+			return false;
+		}
+
+		const bytes = this.target.slice(start, this.offset);
+		const compressed = this.codec.compress(bytes, this.compressionLevel);
+		const header =
+			(this.codec === deflateCodec ? 1 : 2) + (compressed.length < 254 ? 1 : 4);
+
+		if (header + compressed.length > size * this.compressRatio) {
+			return false;
+		}
+
+		this.offset = start;
+
+		if (this.codec === deflateCodec) {
+			this.writeByte(CORE_TYPES.GZIP);
+		} else {
+			this.writeByte(CORE_TYPES.Compressed);
+			this.writeByte(this.codec.id);
+		}
+
+		this.writeBytes(compressed);
+
+		return true;
 	}
 
 	private writeCore(constructorId: CORE_TYPES, value: any) {
-		if (this.withGzip && SUPPORT_COMPRESSION.has(constructorId)) {
+		if (
+			this.withGzip &&
+			this.compressThreshold === undefined &&
+			SUPPORT_COMPRESSION.has(constructorId)
+		) {
 			this.writeObjectGzip(value);
 			return;
 		} else if (!NO_CONSTRUCTOR.has(constructorId)) {
@@ -400,7 +979,12 @@ export class BinaryWriter {
 				return this.writeGzip(value);
 			}
 
-			case CORE_TYPES.DictIndex: {
+			case CORE_TYPES.Compressed: {
+				return this.writeCompressed(value);
+			}
+
+			case CORE_TYPES.DictIndex:
+			case CORE_TYPES.Ref: {
 				return this.writeLength(value);
 			}
 
@@ -424,6 +1008,10 @@ export class BinaryWriter {
 				return this.writeInt32(value);
 			}
 
+			case CORE_TYPES.Int64: {
+				return this.writeInt64(value);
+			}
+
 			case CORE_TYPES.Int16: {
 				return this.writeInt16(value);
 			}
@@ -436,6 +1024,10 @@ export class BinaryWriter {
 				return this.writeInt32(value, false);
 			}
 
+			case CORE_TYPES.UInt64: {
+				return this.writeInt64(value, false);
+			}
+
 			case CORE_TYPES.UInt16: {
 				return this.writeInt16(value, false);
 			}
@@ -473,6 +1065,26 @@ export class BinaryWriter {
 			case CORE_TYPES.Map: {
 				return this.writeMap(value);
 			}
+
+			case CORE_TYPES.Binary: {
+				return this.writeBytes(value);
+			}
+
+			case CORE_TYPES.TypedArray: {
+				return this.writeTypedArray(value);
+			}
+
+			case CORE_TYPES.Constructor: {
+				return this.writeConstructor(value);
+			}
+
+			case CORE_TYPES.JSMap: {
+				return this.writeJSMap(value);
+			}
+
+			case CORE_TYPES.JSSet: {
+				return this.writeJSSet(value);
+			}
 		}
 	}
 
@@ -0,0 +1,238 @@
+import pako from 'pako';
+import { LimitExceededError } from './errors.js';
+import { lz4Compress, lz4Decompress } from './lz4.js';
+
+export interface TLCodec {
+	/**
+	 * Byte written after `CORE_TYPES.Compressed`
+	 */
+	id: number;
+	name: string;
+	compress(data: Uint8Array, level?: number): Uint8Array;
+	/**
+	 * Throws `LimitExceededError` when the output is larger than `maxSize`
+	 */
+	decompress(data: Uint8Array, maxSize: number): Uint8Array;
+}
+
+type Zlib = typeof import('node:zlib');
+
+interface BuiltinModuleLoader {
+	getBuiltinModule?: (id: string) => unknown;
+}
+
+let zlib: Zlib | null | undefined;
+
+/**
+ * Sets `node:zlib` for gzip and brotli codecs, required on runtimes
+ * without `process.getBuiltinModule` (NodeJs before 20.16).
+ */
+export function registerZlib(module: Zlib) {
+	zlib = module;
+}
+
+/**
+ * Returns registered `node:zlib` or loads it synchronously when the runtime
+ * is able to, so the module has no import of `node:zlib` for other runtimes.
+ */
+function nodeZlib(): Zlib | null {
+	if (zlib === undefined) {
+		const proc = (globalThis as { process?: BuiltinModuleLoader }).process;
+
+		zlib =
+			proc && typeof proc.getBuiltinModule === 'function'
+				? (proc.getBuiltinModule('node:zlib') as Zlib | undefined) || null
+				: null;
+	}
+
+	return zlib;
+}
+
+function isBufferTooLarge(err: unknown) {
+	return err instanceof Error && 'code' in err && err.code === 'ERR_BUFFER_TOO_LARGE';
+}
+
+function limitExceeded(size: number, maxSize: number) {
+	return new LimitExceededError('maxInflatedSize', size, maxSize, 0);
+}
+
+function inflate(data: Uint8Array, maxSize: number, options: pako.InflateOptions) {
+	if (maxSize === Infinity) {
+		return options.raw ? pako.inflateRaw(data) : pako.ungzip(data);
+	}
+
+	const inflator = new pako.Inflate(options);
+	const chunks: Uint8Array[] = [];
+
+	let size = 0;
+
+	inflator.onData = (chunk: Uint8Array) => {
+		size += chunk.length;
+
+		if (size > maxSize) {
+			throw limitExceeded(size, maxSize);
+		}
+
+		chunks.push(chunk);
+	};
+
+	inflator.push(data, true);
+
+	if (inflator.err) {
+		throw new Error(`Inflate failed: ${inflator.msg}`);
+	}
+
+	const result = new Uint8Array(size);
+
+	let offset = 0;
+
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+
+	return result;
+}
+
+/**
+ * Runs synchronous zlib decompression with the output limit,
+ * the exact size of an oversized output is not known.
+ */
+function zlibDecompress(
+	method: (buf: Uint8Array, options: { maxOutputLength?: number }) => Uint8Array,
+	data: Uint8Array,
+	maxSize: number,
+) {
+	if (maxSize === Infinity) {
+		return method(data, {});
+	}
+
+	try {
+		return method(data, { maxOutputLength: maxSize });
+	} catch (err) {
+		if (isBufferTooLarge(err)) {
+			throw limitExceeded(maxSize + 1, maxSize);
+		}
+
+		throw err;
+	}
+}
+
+function requireZlib(name: string): Zlib {
+	const result = nodeZlib();
+
+	if (!result) {
+		throw new Error(`Codec ${name} requires node:zlib, register it by registerZlib`);
+	}
+
+	return result;
+}
+
+export const deflateCodec: TLCodec = {
+	id: 0,
+	name: 'deflate',
+	compress(data, level = 9) {
+		return pako.deflateRaw(data, { level: level as pako.DeflateOptions['level'] });
+	},
+	decompress(data, maxSize) {
+		return inflate(data, maxSize, { raw: true });
+	},
+};
+
+export const gzipCodec: TLCodec = {
+	id: 1,
+	name: 'gzip',
+	compress(data, level = 9) {
+		const zlib = nodeZlib();
+
+		if (zlib) {
+			return zlib.gzipSync(data, { level });
+		}
+
+		return pako.gzip(data, { level: level as pako.DeflateOptions['level'] });
+	},
+	decompress(data, maxSize) {
+		const zlib = nodeZlib();
+
+		if (zlib) {
+			return zlibDecompress(zlib.gunzipSync, data, maxSize);
+		}
+
+		return inflate(data, maxSize, {});
+	},
+};
+
+export const brotliCodec: TLCodec = {
+	id: 2,
+	name: 'brotli',
+	compress(data, level = 11) {
+		const zlib = requireZlib(this.name);
+
+		return zlib.brotliCompressSync(data, {
+			params: {
+				[zlib.constants.BROTLI_PARAM_QUALITY]: level,
+				[zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.length,
+			},
+		});
+	},
+	decompress(data, maxSize) {
+		const zlib = requireZlib(this.name);
+
+		return zlibDecompress(zlib.brotliDecompressSync, data, maxSize);
+	},
+};
+
+/**
+ * LZ4 block prefixed by the decompressed size as 4 bytes,
+ * the level is ignored.
+ */
+export const lz4Codec: TLCodec = {
+	id: 3,
+	name: 'lz4',
+	compress(data) {
+		const block = lz4Compress(data);
+		const result = new Uint8Array(block.length + 4);
+
+		new DataView(result.buffer).setUint32(0, data.length, true);
+		result.set(block, 4);
+
+		return result;
+	},
+	decompress(data, maxSize) {
+		if (data.length < 4) {
+			throw new RangeError('Invalid LZ4 block: missing size');
+		}
+
+		const size = new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true);
+
+		if (size > maxSize) {
+			throw limitExceeded(size, maxSize);
+		}
+
+		return lz4Decompress(data.subarray(4), size);
+	},
+};
+
+const codecs = new Map<number | string, TLCodec>();
+
+/**
+ * Makes the codec available to writers by name and to readers by id.
+ */
+export function registerCodec(codec: TLCodec) {
+	if (codec.id > 255 || codec.id < 0 || codec.id << 0 !== codec.id) {
+		throw new TypeError('Codec id must be a 8 bit number');
+	}
+
+	if (codecs.has(codec.id) || codecs.has(codec.name)) {
+		throw new TypeError(`Duplicate codec ${codec.name} = ${codec.id}`);
+	}
+
+	codecs.set(codec.id, codec);
+	codecs.set(codec.name, codec);
+}
+
+export function getCodec(idOrName: number | string): TLCodec | undefined {
+	return codecs.get(idOrName);
+}
+
+[deflateCodec, gzipCodec, brotliCodec, lz4Codec].forEach(registerCodec);
@@ -20,7 +20,34 @@ export enum CORE_TYPES {
 	DictIndex = 18,
 	String = 19,
 	Repeat = 20,
+	Int64 = 21,
+	UInt64 = 22,
+	JSMap = 23,
+	JSSet = 24,
 	GZIP = 25,
+	TypedArray = 26,
+	Constructor = 27,
+	Ref = 28,
+	Extension = 29,
+	Compressed = 30,
+	Header = 31,
+}
+
+export enum TYPED_ARRAY_TYPES {
+	ArrayBuffer = 0,
+	DataView = 1,
+	Buffer = 2,
+	Int8Array = 3,
+	Uint8Array = 4,
+	Uint8ClampedArray = 5,
+	Int16Array = 6,
+	Uint16Array = 7,
+	Int32Array = 8,
+	Uint32Array = 9,
+	Float32Array = 10,
+	Float64Array = 11,
+	BigInt64Array = 12,
+	BigUint64Array = 13,
 }
 
 export const HAS_NODE_BUFFER = typeof Buffer !== 'undefined';
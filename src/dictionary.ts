@@ -1,63 +1,45 @@
-export function createDictionary(values?: string[]) {
-	return new Dictionary(values);
-}
-
-export class Dictionary {
-	private _count = 0;
-	private _map: Map<string, number>;
-	private _index: string[];
-	private _offset: number;
-
-	constructor(values?: string[], offset = 0) {
-		this._index = [];
-		this._map = new Map();
-		this._offset = offset;
+import { BinaryReader } from './BinaryReader.js';
+import { BinaryWriter } from './BinaryWriter.js';
+import { DictionaryTable } from './dictionaryTable.js';
+import { TLPackError } from './errors.js';
 
-		if (Array.isArray(values) && values.length) {
-			values.forEach((word) => {
-				if (this._map!.has(word)) return;
+export function createDictionary(values?: string[], version?: number) {
+	const dictionary = new Dictionary(values);
 
-				this._map.set(word, this._count++);
-				this._index.push(word);
-			});
-		}
+	if (version !== undefined) {
+		dictionary.version = version;
 	}
 
-	get size() {
-		return this._count;
-	}
+	return dictionary;
+}
 
+/**
+ * Static dictionary, which is shipped as a tl-pack buffer
+ * shared by writers and readers.
+ */
+export class Dictionary extends DictionaryTable {
 	/**
-	 * Returns inserted index or nothing
+	 * Restores a dictionary written by `serialize`
 	 */
-	maybeInsert(word: string) {
-		if (this._map.has(word)) return;
-
-		this._map.set(word, this._count++);
-		this._index.push(word);
-
-		return this._count + this._offset;
-	}
-
-	getValue(index: number): string | undefined {
-		return this._index[index - this._offset];
-	}
-
-	getIndex(value: string) {
-		const idx = this._map.get(value);
-
-		if (idx === undefined) {
-			return idx;
+	static deserialize(buffer: Buffer | Uint8Array): Dictionary {
+		const data = new BinaryReader(buffer).readObject();
+
+		if (
+			!data ||
+			typeof data.version !== 'number' ||
+			!Array.isArray(data.values) ||
+			data.values.some((value: unknown) => typeof value !== 'string')
+		) {
+			throw new TLPackError('Dictionary must be a map of version and values', 0);
 		}
 
-		return idx + this._offset;
+		return createDictionary(data.values, data.version);
 	}
 
-	hasValue(value: string) {
-		return this._map.has(value);
-	}
-
-	hasIndex(index: number) {
-		return this._index[index - this._offset] !== undefined;
+	/**
+	 * Encodes version and values as a tl-pack map
+	 */
+	serialize(): Uint8Array {
+		return new BinaryWriter().encode({ version: this.version, values: this.values() }).slice();
 	}
 }
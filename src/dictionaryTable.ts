@@ -0,0 +1,107 @@
+/**
+ * Ordered table of dictionary values, indexes start from the offset.
+ * Used by writers and readers for static and extended values.
+ */
+export class DictionaryTable {
+	/**
+	 * Written into the dictionary header with the fingerprint
+	 */
+	version = 0;
+	private _count = 0;
+	private _map: Map<string, number>;
+	private _index: string[];
+	private _offset: number;
+	private _fingerprint?: number;
+
+	constructor(values?: string[], offset = 0) {
+		this._index = [];
+		this._map = new Map();
+		this._offset = offset;
+
+		if (Array.isArray(values) && values.length) {
+			values.forEach((word) => {
+				if (this._map!.has(word)) return;
+
+				this._map.set(word, this._count++);
+				this._index.push(word);
+			});
+		}
+	}
+
+	get size() {
+		return this._count;
+	}
+
+	/**
+	 * FNV-1a hash of the values in order
+	 */
+	get fingerprint() {
+		if (this._fingerprint === undefined) {
+			let hash = 0x811c9dc5;
+
+			for (const word of this._index) {
+				for (let i = 0; i < word.length; i++) {
+					hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+				}
+
+				// separates values, ["ab"] and ["a", "b"] differ
+				hash = Math.imul(hash ^ 0xffff, 0x01000193);
+			}
+
+			this._fingerprint = hash >>> 0;
+		}
+
+		return this._fingerprint;
+	}
+
+	values(): string[] {
+		return this._index.slice();
+	}
+
+	/**
+	 * Returns inserted index or nothing
+	 */
+	maybeInsert(word: string) {
+		if (this._map.has(word)) return;
+
+		this._map.set(word, this._count++);
+		this._index.push(word);
+		this._fingerprint = undefined;
+
+		return this._count + this._offset;
+	}
+
+	/**
+	 * Removes values inserted after the dictionary had the given size
+	 */
+	truncate(size: number) {
+		while (this._count > size) {
+			this._map.delete(this._index.pop()!);
+			this._count--;
+		}
+
+		this._fingerprint = undefined;
+	}
+
+	getValue(index: number): string | undefined {
+		return this._index[index - this._offset];
+	}
+
+	getIndex(value: string) {
+		const idx = this._map.get(value);
+
+		if (idx === undefined) {
+			return idx;
+		}
+
+		return idx + this._offset;
+	}
+
+	hasValue(value: string) {
+		return this._map.has(value);
+	}
+
+	hasIndex(index: number) {
+		return this._index[index - this._offset] !== undefined;
+	}
+}
@@ -0,0 +1,105 @@
+import { CORE_TYPES } from './constants.js';
+import { Dictionary } from './dictionary.js';
+import { coreType } from './helpers.js';
+
+// string values up to this length are written through the dictionary
+const MAX_VALUE_LENGTH = 0x10;
+
+export interface TrainDictionaryOptions {
+	/**
+	 * Maximum count of entries, indexes up to 253 take a single byte.
+	 * Defaults to 254
+	 */
+	maxEntries?: number;
+	/**
+	 * Minimum count of samples containing a word. Defaults to 2
+	 */
+	minSamples?: number;
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Collects map keys and short string values of the sample the same
+ * way BinaryWriter passes them through the dictionary.
+ */
+function collectWords(value: any, words: Set<string>) {
+	switch (coreType(value)) {
+		case CORE_TYPES.String: {
+			if (value.length <= MAX_VALUE_LENGTH) {
+				words.add(value);
+			}
+
+			return;
+		}
+
+		case CORE_TYPES.Map: {
+			for (const key in value) {
+				if (value[key] === undefined) continue;
+
+				words.add(key);
+				collectWords(value[key], words);
+			}
+
+			return;
+		}
+
+		case CORE_TYPES.Vector:
+		case CORE_TYPES.JSSet: {
+			for (const item of value) {
+				collectWords(item, words);
+			}
+
+			return;
+		}
+
+		case CORE_TYPES.JSMap: {
+			for (const [key, item] of value) {
+				collectWords(key, words);
+				collectWords(item, words);
+			}
+
+			return;
+		}
+	}
+}
+
+/**
+ * Builds a static dictionary from sample objects. Without a static entry
+ * a word is written once per encoded object with its bytes and then by index,
+ * so words are ranked by count of samples containing them × their bytes.
+ */
+export function trainDictionary(
+	samples: Iterable<any>,
+	options?: TrainDictionaryOptions,
+): Dictionary {
+	const maxEntries =
+		options && typeof options.maxEntries === 'number' ? options.maxEntries : 254;
+	const minSamples =
+		options && typeof options.minSamples === 'number' ? options.minSamples : 2;
+	const counts = new Map<string, number>();
+
+	for (const sample of samples) {
+		const words = new Set<string>();
+
+		collectWords(sample, words);
+
+		words.forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+	}
+
+	const ranked: Array<{ word: string; score: number }> = [];
+
+	counts.forEach((count, word) => {
+		if (count < minSamples) return;
+
+		const score = count * encoder.encode(word).length;
+
+		if (score > 0) {
+			ranked.push({ word, score });
+		}
+	});
+
+	ranked.sort((a, b) => b.score - a.score || (a.word < b.word ? -1 : 1));
+
+	return new Dictionary(ranked.slice(0, maxEntries).map((item) => item.word));
+}
@@ -0,0 +1,131 @@
+import { CORE_TYPES } from './constants.js';
+
+export type LimitName =
+	| 'maxDepth'
+	| 'maxStringLength'
+	| 'maxBinaryLength'
+	| 'maxVectorLength'
+	| 'maxMapKeys'
+	| 'maxDictionarySize'
+	| 'maxInflatedSize'
+	| 'maxFrameSize';
+
+export type ErrorPath = Array<string | number>;
+
+function formatPath(path: ErrorPath) {
+	let result = '';
+
+	for (const key of path) {
+		result += typeof key === 'number' ? `[${key}]` : result ? `.${key}` : key;
+	}
+
+	return result;
+}
+
+/**
+ * Base error of encoding and decoding.
+ * `offset` is the byte offset where the error occurred,
+ * `constructorId` is the constructor of the failing value
+ * and `path` is the keys/indexes to the failing value.
+ */
+export class TLPackError extends Error {
+	reason: string;
+	offset: number;
+	constructorId?: number;
+	path: ErrorPath;
+
+	constructor(reason: string, offset: number, constructorId?: number) {
+		super(`${reason}, offset = ${offset}`);
+		this.name = 'TLPackError';
+		this.reason = reason;
+		this.offset = offset;
+		this.path = [];
+
+		if (constructorId !== undefined) {
+			this.constructorId = constructorId;
+		}
+	}
+
+	/**
+	 * Prepends key or index of the parent to the path.
+	 */
+	addPath(key: string | number) {
+		this.path.unshift(key);
+		this.message = `${this.reason}, offset = ${this.offset}, path = ${formatPath(this.path)}`;
+
+		return this;
+	}
+}
+
+/**
+ * Thrown when data ends in the middle of a value,
+ * usually more data is expected to arrive.
+ */
+export class IncompleteDataError extends TLPackError {
+	readonly incomplete = true;
+	/**
+	 * Count of bytes missing after the end of data, at least
+	 */
+	missing: number;
+
+	constructor(reason: string, offset: number, constructorId?: number, missing = 1) {
+		super(reason, offset, constructorId);
+		this.name = 'IncompleteDataError';
+		this.missing = missing;
+	}
+}
+
+/**
+ * Thrown when decoded constructor code is unknown or unexpected.
+ */
+export class InvalidConstructorError extends TLPackError {
+	constructor(reason: string, offset: number, constructorId?: number) {
+		super(reason, offset, constructorId);
+		this.name = 'InvalidConstructorError';
+	}
+}
+
+/**
+ * Thrown when a value is not able to be encoded.
+ */
+export class UnsupportedTypeError extends TLPackError {
+	constructor(reason: string, offset: number, constructorId?: number) {
+		super(reason, offset, constructorId);
+		this.name = 'UnsupportedTypeError';
+	}
+}
+
+/**
+ * Thrown when decoded data exceeds a limit of BinaryReaderOptions,
+ * `limit` is the name of the exceeded option.
+ */
+export class LimitExceededError extends TLPackError {
+	limit: LimitName;
+	value: number;
+	max: number;
+
+	constructor(limit: LimitName, value: number, max: number, offset: number) {
+		super(`Limit ${limit} exceeded: ${value} > ${max}`, offset);
+		this.name = 'LimitExceededError';
+		this.limit = limit;
+		this.value = value;
+		this.max = max;
+	}
+}
+
+/**
+ * Thrown when the dictionary header of the payload does not match
+ * the static dictionary of the reader, `version` and `hash` are
+ * taken from the payload.
+ */
+export class DictionaryMismatchError extends TLPackError {
+	version: number;
+	hash: number;
+
+	constructor(version: number, hash: number, reason: string, offset: number) {
+		super(reason, offset, CORE_TYPES.Header);
+		this.name = 'DictionaryMismatchError';
+		this.version = version;
+		this.hash = hash;
+	}
+}
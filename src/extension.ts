@@ -7,27 +7,151 @@ export type EncodeHandler = (this: BinaryWriter, value: any) => void;
 
 export type DecodeHandler = (this: BinaryReader) => any;
 
+/**
+ * Returns JSON form of the decoded value
+ */
+export type JSONHandler = (value: any) => any;
+
+export type TestHandler = (value: any) => boolean;
+
+export type ClassConstructor<T = any> = new (...args: any[]) => T;
+
+export interface ClassHandlers<T, F> {
+	/**
+	 * Returns a structure encoded by `writeObject`
+	 */
+	toFields: (value: T) => F;
+	/**
+	 * Rebuilds an instance from the decoded structure
+	 */
+	fromFields: (fields: F) => T;
+	toJSON?: JSONHandler;
+}
+
+/**
+ * Tokens above are written after `CORE_TYPES.Extension` as 2 bytes
+ */
+export const MAX_BYTE_TOKEN = 254;
+
+export const MAX_TOKEN = 65535;
+
 export interface TLExtension {
 	token: number;
 	encode: EncodeHandler;
 	decode: DecodeHandler;
+	toJSON?: JSONHandler;
+	/**
+	 * Values passing the test are encoded by the extension without trying others
+	 */
+	test?: TestHandler;
+	/**
+	 * Instances of the class are matched by prototype before core types
+	 */
+	Class?: ClassConstructor;
+	/**
+	 * Encoded value is a single object, it is skipped
+	 * and inspected without calling `decode`
+	 */
+	fields?: boolean;
+}
+
+/**
+ * Maps extensions by token, a token can be registered only once.
+ */
+export function extensionMap(extensions?: TLExtension[]): Map<number, TLExtension> {
+	const result = new Map<number, TLExtension>();
+
+	if (extensions) {
+		extensions.forEach((ext) => {
+			if (result.has(ext.token)) {
+				throw new TypeError(`Duplicate extension token = ${ext.token}`);
+			}
+
+			result.set(ext.token, ext);
+		});
+	}
+
+	return result;
 }
 
 export function createExtension(
 	token: number,
-	{ encode, decode }: { encode: EncodeHandler; decode: DecodeHandler },
+	{
+		encode,
+		decode,
+		toJSON,
+		test,
+		Class,
+	}: {
+		encode: EncodeHandler;
+		decode: DecodeHandler;
+		toJSON?: JSONHandler;
+		test?: TestHandler;
+		Class?: ClassConstructor;
+	},
 ): TLExtension {
-	if (token !== -1 && (token > 254 || token < 0 || token << 0 !== token)) {
-		throw new TypeError('Token must be a 8 bit number');
+	if (token !== -1 && (token > MAX_TOKEN || token < 0 || token << 0 !== token)) {
+		throw new TypeError('Token must be a 16 bit number');
 	}
 
 	if (token !== -1 && token < 35) {
 		throw new TypeError('Tokens reserved from 0 to 34');
 	}
 
-	return {
+	const ext: TLExtension = {
 		token,
 		encode,
 		decode,
 	};
+
+	if (toJSON) {
+		ext.toJSON = toJSON;
+	}
+
+	if (test) {
+		ext.test = test;
+	}
+
+	if (Class) {
+		if (typeof Class !== 'function') {
+			throw new TypeError('Class must be a constructor');
+		}
+
+		ext.Class = Class;
+	}
+
+	return ext;
+}
+
+/**
+ * Creates an extension for instances of the class,
+ * fields of an instance are encoded as a regular object.
+ */
+export function registerClass<T extends object, F = any>(
+	token: number,
+	Class: ClassConstructor<T>,
+	{ toFields, fromFields, toJSON }: ClassHandlers<T, F>,
+): TLExtension {
+	if (token === -1) {
+		throw new TypeError('Class requires a token');
+	}
+
+	if (typeof Class !== 'function') {
+		throw new TypeError('Class must be a constructor');
+	}
+
+	const ext = createExtension(token, {
+		encode(value) {
+			this.writeObject(toFields(value));
+		},
+		decode() {
+			return fromFields(this.readObject());
+		},
+		toJSON,
+		Class,
+	});
+
+	ext.fields = true;
+
+	return ext;
 }
@@ -0,0 +1,207 @@
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
+import {
+	IncompleteDataError,
+	LimitExceededError,
+	TLPackError,
+	UnsupportedTypeError,
+} from './errors.js';
+import { byteArrayAllocate } from './helpers.js';
+
+export const DEFAULT_MAX_FRAME_SIZE = 0x1000000;
+
+const HEADER_SIZE = 4;
+
+export interface FrameOptions {
+	/**
+	 * Maximum size of frame payload in bytes
+	 */
+	maxFrameSize?: number;
+	/**
+	 * Keep dictionary values between frames, then frames must be decoded in order
+	 */
+	shareDictionary?: boolean;
+}
+
+export interface FrameEncoderOptions extends BinaryWriterOptions, FrameOptions {}
+
+export interface FrameDecoderOptions extends BinaryReaderOptions, FrameOptions {}
+
+export type FrameDecoderResult = { done: true } | { done: false; value: any };
+
+const DONE: FrameDecoderResult = { done: true };
+
+function frameSizeError(size: number, maxFrameSize: number, offset: number) {
+	return new LimitExceededError('maxFrameSize', size, maxFrameSize, offset);
+}
+
+/**
+ * Encodes values into frames: uint32 payload length followed by the payload.
+ */
+export class FrameEncoder {
+	writer: BinaryWriter;
+	private maxFrameSize: number;
+	private shareDictionary: boolean;
+
+	constructor(options?: FrameEncoderOptions) {
+		this.writer = new BinaryWriter(options);
+		this.maxFrameSize = (options && options.maxFrameSize) ?? DEFAULT_MAX_FRAME_SIZE;
+		this.shareDictionary = !!options && !!options.shareDictionary;
+	}
+
+	encode(value: any) {
+		if (!this.shareDictionary) {
+			this.writer.resetDictionary();
+		}
+
+		const dictionarySize = this.writer.dictionarySize;
+		const payload = this.writer.encode(value);
+		const size = payload.length;
+
+		// the decoder rejects empty frames
+		if (size === 0) {
+			throw new UnsupportedTypeError(`Empty frame of ${value}`, 0);
+		}
+
+		if (size > this.maxFrameSize) {
+			// the frame is not sent, so its dictionary values are unknown to the decoder
+			this.writer.truncateDictionary(dictionarySize);
+			throw frameSizeError(size, this.maxFrameSize, 0);
+		}
+
+		const frame = byteArrayAllocate(HEADER_SIZE + size);
+
+		frame[0] = size;
+		frame[1] = size >> 8;
+		frame[2] = size >> 16;
+		frame[3] = size >> 24;
+		frame.set(payload, HEADER_SIZE);
+
+		return frame;
+	}
+}
+
+/**
+ * Decodes frames of any chunk boundaries.
+ *
+ * Written chunks are joined with the unread tail only when
+ * the header or the whole frame they complete has arrived.
+ */
+export class FrameDecoder {
+	reader: BinaryReader;
+	private maxFrameSize: number;
+	private shareDictionary: boolean;
+	private pending: Uint8Array;
+	private offset: number;
+	private chunks: Uint8Array[];
+	private buffered: number;
+	/**
+	 * Count of bytes required from the offset to read the next header or frame
+	 */
+	private required: number;
+
+	constructor(options?: FrameDecoderOptions) {
+		this.reader = new BinaryReader(new Uint8Array(0), options);
+		this.maxFrameSize = (options && options.maxFrameSize) ?? DEFAULT_MAX_FRAME_SIZE;
+		this.shareDictionary = !!options && !!options.shareDictionary;
+		this.pending = new Uint8Array(0);
+		this.offset = 0;
+		this.chunks = [];
+		this.buffered = 0;
+		this.required = 0;
+	}
+
+	write(chunk: Uint8Array) {
+		this.chunks.push(chunk);
+		this.buffered += chunk.length;
+	}
+
+	/**
+	 * Joins the unread tail with written chunks.
+	 */
+	private flush() {
+		const tail = this.pending.subarray(this.offset);
+
+		if (!tail.length && this.chunks.length === 1) {
+			this.pending = this.chunks[0];
+		} else {
+			const buffer = byteArrayAllocate(tail.length + this.buffered);
+
+			let offset = tail.length;
+
+			buffer.set(tail, 0);
+
+			for (const chunk of this.chunks) {
+				buffer.set(chunk, offset);
+				offset += chunk.length;
+			}
+
+			this.pending = buffer;
+		}
+
+		this.offset = 0;
+		this.chunks = [];
+		this.buffered = 0;
+		this.required = 0;
+	}
+
+	/**
+	 * Reads next complete frame, `done` means more data required.
+	 */
+	read(): FrameDecoderResult {
+		if (this.buffered) {
+			if (this.pending.length - this.offset + this.buffered < this.required) {
+				return DONE;
+			}
+
+			this.flush();
+		}
+
+		const pending = this.pending;
+		const offset = this.offset;
+
+		if (pending.length - offset < HEADER_SIZE) {
+			this.required = HEADER_SIZE;
+			return DONE;
+		}
+
+		const size =
+			(pending[offset] |
+				(pending[offset + 1] << 8) |
+				(pending[offset + 2] << 16) |
+				(pending[offset + 3] << 24)) >>>
+			0;
+
+		if (size > this.maxFrameSize) {
+			throw frameSizeError(size, this.maxFrameSize, offset);
+		}
+
+		if (size === 0) {
+			throw new TLPackError('Empty frame', offset);
+		}
+
+		const end = offset + HEADER_SIZE + size;
+
+		if (pending.length < end) {
+			this.required = HEADER_SIZE + size;
+			return DONE;
+		}
+
+		this.offset = end;
+
+		if (!this.shareDictionary) {
+			this.reader.resetDictionary();
+		}
+
+		return { done: false, value: this.reader.decode(pending.subarray(offset + HEADER_SIZE, end)) };
+	}
+
+	/**
+	 * Asserts the stream is not ended in the middle of a frame.
+	 */
+	end() {
+		if (this.offset < this.pending.length || this.buffered) {
+			throw new IncompleteDataError('Stream ended with incomplete frame', this.offset);
+		}
+	}
+}
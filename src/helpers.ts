@@ -1,4 +1,5 @@
-import { CORE_TYPES, HAS_NODE_BUFFER } from './constants.js';
+import { CORE_TYPES, HAS_NODE_BUFFER, TYPED_ARRAY_TYPES } from './constants.js';
+import { TLPackError } from './errors.js';
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
@@ -8,6 +9,82 @@ const fromCharCode = String.fromCharCode;
 export const int32 = new Int32Array(2);
 export const float32 = new Float32Array(int32.buffer);
 export const float64 = new Float64Array(int32.buffer);
+export const bigInt64 = new BigInt64Array(int32.buffer);
+export const bigUint64 = new BigUint64Array(int32.buffer);
+
+const INT64_MIN = -(BigInt(1) << BigInt(63));
+const UINT64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * Constructor of typed arrays, which are created as a view over the buffer
+ */
+export interface ArrayViewConstructor {
+	new (buffer: ArrayBufferLike, byteOffset: number, length: number): ArrayBufferView;
+	readonly BYTES_PER_ELEMENT: number;
+}
+
+export type TypedArrayConstructor =
+	| ArrayBufferConstructor
+	| DataViewConstructor
+	| BufferConstructor
+	| ArrayViewConstructor;
+
+export const TYPED_ARRAY_CONSTRUCTORS: Record<TYPED_ARRAY_TYPES, TypedArrayConstructor> = {
+	[TYPED_ARRAY_TYPES.ArrayBuffer]: ArrayBuffer,
+	[TYPED_ARRAY_TYPES.DataView]: DataView,
+	[TYPED_ARRAY_TYPES.Buffer]: HAS_NODE_BUFFER ? Buffer : Uint8Array,
+	[TYPED_ARRAY_TYPES.Int8Array]: Int8Array,
+	[TYPED_ARRAY_TYPES.Uint8Array]: Uint8Array,
+	[TYPED_ARRAY_TYPES.Uint8ClampedArray]: Uint8ClampedArray,
+	[TYPED_ARRAY_TYPES.Int16Array]: Int16Array,
+	[TYPED_ARRAY_TYPES.Uint16Array]: Uint16Array,
+	[TYPED_ARRAY_TYPES.Int32Array]: Int32Array,
+	[TYPED_ARRAY_TYPES.Uint32Array]: Uint32Array,
+	[TYPED_ARRAY_TYPES.Float32Array]: Float32Array,
+	[TYPED_ARRAY_TYPES.Float64Array]: Float64Array,
+	[TYPED_ARRAY_TYPES.BigInt64Array]: BigInt64Array,
+	[TYPED_ARRAY_TYPES.BigUint64Array]: BigUint64Array,
+};
+
+export function typedArrayType(value: any): TYPED_ARRAY_TYPES | undefined {
+	if (HAS_NODE_BUFFER && Buffer.isBuffer(value)) {
+		return TYPED_ARRAY_TYPES.Buffer;
+	}
+
+	const ctor = value.constructor;
+	const name = (ctor && ctor.name) as keyof typeof TYPED_ARRAY_TYPES;
+	const type: TYPED_ARRAY_TYPES | undefined = TYPED_ARRAY_TYPES[name];
+
+	if (typeof type === 'number' && TYPED_ARRAY_CONSTRUCTORS[type] === ctor) {
+		return type;
+	}
+}
+
+/**
+ * Adds key or index to the path of the error.
+ */
+export function withPath(err: unknown, key: string | number) {
+	if (err instanceof TLPackError) {
+		err.addPath(key);
+	}
+
+	return err;
+}
+
+/**
+ * Sets constructor of the failing value, unless a nested value already set it.
+ */
+export function withConstructor(err: unknown, constructorId: number) {
+	if (err instanceof TLPackError && err.constructorId === undefined) {
+		err.constructorId = constructorId;
+	}
+
+	return err;
+}
+
+export function constructorName(constructorId: number) {
+	return CORE_TYPES[constructorId] || String(constructorId);
+}
 
 export function byteArrayAllocate(length: number) {
 	if (HAS_NODE_BUFFER) {
@@ -17,6 +94,29 @@ export function byteArrayAllocate(length: number) {
 	return new Uint8Array(length);
 }
 
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function base64Encode(bytes: Uint8Array) {
+	if (HAS_NODE_BUFFER) {
+		return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+	}
+
+	let result = '';
+
+	for (let i = 0; i < bytes.length; i += 3) {
+		const a = bytes[i];
+		const b = i + 1 < bytes.length ? bytes[i + 1] : 0;
+		const c = i + 2 < bytes.length ? bytes[i + 2] : 0;
+
+		result += BASE64_ALPHABET[a >> 2];
+		result += BASE64_ALPHABET[((a & 3) << 4) | (b >> 4)];
+		result += i + 1 < bytes.length ? BASE64_ALPHABET[((b & 15) << 2) | (c >> 6)] : '=';
+		result += i + 2 < bytes.length ? BASE64_ALPHABET[c & 63] : '=';
+	}
+
+	return result;
+}
+
 export function coreType(value: any): CORE_TYPES {
 	switch (typeof value) {
 		case 'string': {
@@ -44,9 +144,27 @@ export function coreType(value: any): CORE_TYPES {
 				}
 			}
 
+			if (value >= 0 && value <= 0xffffffff && Number.isInteger(value)) {
+				return CORE_TYPES.UInt32;
+			}
+
+			if (Number.isSafeInteger(value)) {
+				return value < 0 ? CORE_TYPES.Int64 : CORE_TYPES.UInt64;
+			}
+
 			return CORE_TYPES.Double;
 		}
 
+		case 'bigint': {
+			if (value >= 0 && value <= UINT64_MAX) {
+				return CORE_TYPES.UInt64;
+			} else if (value < 0 && value >= INT64_MIN) {
+				return CORE_TYPES.Int64;
+			}
+
+			break;
+		}
+
 		case 'object': {
 			if (value === null) return CORE_TYPES.Null;
 
@@ -58,6 +176,25 @@ export function coreType(value: any): CORE_TYPES {
 				return CORE_TYPES.Vector;
 			}
 
+			if (value instanceof Uint8Array && value.constructor === Uint8Array) {
+				return CORE_TYPES.Binary;
+			}
+
+			if (
+				(value instanceof ArrayBuffer || ArrayBuffer.isView(value)) &&
+				typedArrayType(value) !== undefined
+			) {
+				return CORE_TYPES.TypedArray;
+			}
+
+			if (value instanceof Map) {
+				return CORE_TYPES.JSMap;
+			}
+
+			if (value instanceof Set) {
+				return CORE_TYPES.JSSet;
+			}
+
 			if (isPlainObject(value)) {
 				return CORE_TYPES.Map;
 			}
@@ -1,5 +1,18 @@
 export * from './BinaryWriter.js';
 export * from './BinaryReader.js';
 export * from './constants.js';
+export * from './codecs.js';
+export * from './errors.js';
 export * from './extension.js';
 export * from './dictionary.js';
+export * from './dictionaryTable.js';
+export * from './dictionaryTrainer.js';
+export * from './schema.js';
+export * from './lazy.js';
+export * from './validate.js';
+export * from './inspect.js';
+export * from './json.js';
+export * from './iterable.js';
+export * from './framing.js';
+export * from './tlParser.js';
+export * from './tlGenerator.js';
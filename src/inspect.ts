@@ -0,0 +1,463 @@
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { getCodec } from './codecs.js';
+import { CORE_TYPES, TYPED_ARRAY_TYPES } from './constants.js';
+import { InvalidConstructorError, TLPackError } from './errors.js';
+import { constructorName } from './helpers.js';
+import { TLConstructor, TLType } from './schema.js';
+
+const HEX_BYTES = 8;
+const VALUE_LENGTH = 64;
+
+export interface InspectNode {
+	/**
+	 * Offset of the node, nested nodes of GZIP and Compressed are relative to the inflated data
+	 */
+	offset: number;
+	/**
+	 * Bytes of the node including nested nodes
+	 */
+	size: number;
+	depth: number;
+	/**
+	 * `CORE_TYPES` name, `Extension`, schema field type or `Error`
+	 */
+	type: string;
+	constructorId?: number;
+	/**
+	 * Header bytes of the node in hex
+	 */
+	hex: string;
+	/**
+	 * Map key, field name or element index
+	 */
+	key?: string | number;
+	length?: number;
+	inflated?: number;
+	codec?: string;
+	dictionaryIndex?: number;
+	repeat?: number;
+	reference?: number;
+	token?: number;
+	value?: string | number | boolean | null;
+	error?: string;
+}
+
+function scalar(value: any): InspectNode['value'] | undefined {
+	switch (typeof value) {
+		case 'string':
+		case 'number':
+		case 'boolean':
+			return value;
+		case 'bigint':
+			return String(value);
+		case 'object':
+			if (value === null) return null;
+			if (value instanceof Date) return value.toISOString();
+	}
+}
+
+function typeName(type: TLType): string {
+	return typeof type === 'object' ? `vector<${typeName(type.vector)}>` : type;
+}
+
+class Inspector {
+	reader: BinaryReader;
+	nodes: InspectNode[];
+	depth: number;
+	private constructors: Map<number, TLConstructor>;
+
+	constructor(buffer: Uint8Array, options?: BinaryReaderOptions) {
+		this.reader = new BinaryReader(buffer, { ...options, int64: 'string', binary: 'view' });
+		this.nodes = [];
+		this.depth = 0;
+		this.constructors = new Map();
+
+		if (options && options.constructors) {
+			options.constructors.forEach((ctor) => this.constructors.set(ctor.id, ctor));
+		}
+	}
+
+	walk(key?: string | number): InspectNode {
+		const reader = this.reader;
+		const offset = reader.offset;
+		const constructorId = reader.readByte();
+		const ext = reader.readExtension(constructorId);
+		const node = this.node(offset, ext ? 'Extension' : constructorName(constructorId), key);
+
+		node.constructorId = constructorId;
+
+		if (ext && ext.fields) {
+			node.token = ext.token;
+			node.value = ext.Class!.name;
+			this.open(node);
+			this.walk();
+			return this.end(node);
+		}
+
+		if (ext) {
+			node.token = ext.token;
+			node.value = scalar(ext.decode.call(reader));
+			return this.close(node);
+		}
+
+		switch (constructorId) {
+			case CORE_TYPES.None:
+				this.open(node);
+				this.walk();
+				return this.end(node);
+
+			case CORE_TYPES.Header: {
+				const { version, hash } = reader.readHeader();
+
+				node.value = `version ${version} hash ${hash.toString(16).padStart(8, '0')}`;
+				this.open(node);
+				this.walk();
+				return this.end(node);
+			}
+
+			case CORE_TYPES.BoolTrue:
+				node.value = true;
+				return this.close(node);
+
+			case CORE_TYPES.BoolFalse:
+				node.value = false;
+				return this.close(node);
+
+			case CORE_TYPES.Null:
+				node.value = null;
+				return this.close(node);
+
+			case CORE_TYPES.String:
+				node.length = this.peekLength();
+				node.value = reader.readString();
+				return this.close(node);
+
+			case CORE_TYPES.Binary:
+				node.length = this.peekLength();
+				reader.readBytes();
+				return this.close(node);
+
+			case CORE_TYPES.TypedArray:
+				node.value = TYPED_ARRAY_TYPES[reader.readByte()];
+				node.length = this.peekLength();
+				reader.setPosition(offset);
+				reader.readObject();
+				return this.close(node);
+
+			case CORE_TYPES.Date:
+			case CORE_TYPES.Double:
+			case CORE_TYPES.Float:
+			case CORE_TYPES.Int8:
+			case CORE_TYPES.Int16:
+			case CORE_TYPES.Int32:
+			case CORE_TYPES.Int64:
+			case CORE_TYPES.UInt8:
+			case CORE_TYPES.UInt16:
+			case CORE_TYPES.UInt32:
+			case CORE_TYPES.UInt64:
+				reader.seek(-1);
+				node.value = scalar(reader.readObject());
+				return this.close(node);
+
+			case CORE_TYPES.DictIndex:
+			case CORE_TYPES.DictValue:
+				reader.seek(-1);
+				this.dictionary(node);
+				return this.close(node);
+
+			case CORE_TYPES.Repeat:
+				node.repeat = reader.readLength();
+				return this.close(node);
+
+			case CORE_TYPES.Ref:
+				node.reference = reader.readLength();
+				return this.close(node);
+
+			case CORE_TYPES.Vector:
+			case CORE_TYPES.JSSet: {
+				const count = (node.length = reader.readLength());
+
+				this.open(node);
+
+				for (let i = 0; i < count; ) {
+					const child = this.walk(i);
+					i += child.repeat === undefined ? 1 : child.repeat;
+				}
+
+				return this.end(node);
+			}
+
+			case CORE_TYPES.JSMap: {
+				const count = (node.length = reader.readLength()) * 2;
+
+				this.open(node);
+
+				for (let i = 0; i < count; ) {
+					const child = this.walk(Math.floor(i / 2));
+					i += child.repeat === undefined ? 1 : child.repeat;
+				}
+
+				return this.end(node);
+			}
+
+			case CORE_TYPES.VectorDynamic: {
+				this.open(node);
+
+				for (let i = 0; reader.readByte() !== CORE_TYPES.None; i++) {
+					reader.seek(-1);
+					this.walk(i);
+				}
+
+				return this.end(node);
+			}
+
+			case CORE_TYPES.Map: {
+				this.open(node);
+
+				while (reader.readByte() !== CORE_TYPES.None) {
+					const keyOffset = reader.offset - 1;
+					const keyId = reader.getBuffer()[keyOffset];
+
+					if (keyId !== CORE_TYPES.DictIndex && keyId !== CORE_TYPES.DictValue) {
+						throw new InvalidConstructorError(
+							`Invalid key constructor = ${constructorName(keyId)}`,
+							keyOffset,
+							keyId,
+						);
+					}
+
+					reader.seek(-1);
+
+					const keyNode = this.node(keyOffset, constructorName(keyId));
+
+					keyNode.constructorId = keyId;
+
+					const key = this.dictionary(keyNode);
+
+					this.close(keyNode);
+					this.walk(key);
+				}
+
+				return this.end(node);
+			}
+
+			case CORE_TYPES.Constructor: {
+				const id = reader.readInt32(false);
+				const ctor = this.constructors.get(id);
+
+				if (!ctor) {
+					throw new InvalidConstructorError(
+						`Unknown constructor id = 0x${id.toString(16)}`,
+						reader.offset - 4,
+						CORE_TYPES.Constructor,
+					);
+				}
+
+				node.value = ctor.name;
+				this.open(node);
+
+				for (const field of ctor.fields) {
+					if (field.type === 'object') {
+						this.walk(field.name);
+						continue;
+					}
+
+					const fieldNode = this.node(reader.offset, typeName(field.type), field.name);
+					const value = reader.readTyped(field.type);
+
+					if (Array.isArray(value)) {
+						fieldNode.length = value.length;
+					} else {
+						fieldNode.value = scalar(value);
+					}
+
+					this.close(fieldNode);
+				}
+
+				return this.end(node);
+			}
+
+			case CORE_TYPES.GZIP:
+			case CORE_TYPES.Compressed: {
+				const start = reader.offset;
+
+				if (constructorId === CORE_TYPES.Compressed) {
+					const id = reader.readByte();
+					const codec = getCodec(id);
+
+					node.codec = codec ? codec.name : String(id);
+				}
+
+				node.length = this.peekLength();
+				reader.setPosition(start);
+
+				const bytes = reader.readGzip(constructorId);
+
+				node.inflated = bytes.length;
+				this.open(node);
+
+				const buffer = reader.getBuffer();
+				const position = reader.offset;
+
+				reader.setBuffer(bytes);
+
+				try {
+					this.walk();
+				} finally {
+					reader.setBuffer(buffer);
+					reader.setPosition(position);
+				}
+
+				return this.end(node);
+			}
+		}
+
+		throw new InvalidConstructorError(
+			`Invalid constructor = ${constructorName(constructorId)}`,
+			offset,
+			constructorId,
+		);
+	}
+
+	private node(offset: number, type: string, key?: string | number) {
+		const node: InspectNode = { offset, size: 0, depth: this.depth, type, hex: '' };
+
+		if (key !== undefined) {
+			node.key = key;
+		}
+
+		this.nodes.push(node);
+
+		return node;
+	}
+
+	/**
+	 * Sets header bytes of the node before its children.
+	 */
+	private open(node: InspectNode) {
+		this.close(node);
+		this.depth++;
+	}
+
+	private close(node: InspectNode) {
+		const bytes = this.reader.getBuffer().subarray(node.offset, this.reader.offset);
+
+		node.size = bytes.length;
+
+		let hex = '';
+
+		for (let i = 0; i < Math.min(bytes.length, HEX_BYTES); i++) {
+			hex += (i ? ' ' : '') + bytes[i].toString(16).padStart(2, '0');
+		}
+
+		node.hex = bytes.length > HEX_BYTES ? hex + '…' : hex;
+
+		return node;
+	}
+
+	/**
+	 * Sets size of the node after its children.
+	 */
+	private end(node: InspectNode) {
+		this.depth--;
+		node.size = this.reader.offset - node.offset;
+
+		return node;
+	}
+
+	private peekLength() {
+		const position = this.reader.offset;
+		const length = this.reader.readLength();
+
+		this.reader.setPosition(position);
+
+		return length;
+	}
+
+	private dictionary(node: InspectNode) {
+		const reader = this.reader;
+		const value = reader.readDictionary();
+
+		if (value === null || value === undefined) {
+			throw new TLPackError('Unknown dictionary index', node.offset, CORE_TYPES.DictIndex);
+		}
+
+		node.dictionaryIndex = reader.getDictionaryIndex(value);
+		node.value = value;
+
+		return value;
+	}
+}
+
+/**
+ * Walks encoded buffer into a flat list of nodes, the `depth`
+ * of a node reflects its nesting. Decoding error is appended
+ * as the last node of `Error` type.
+ */
+export function inspectNodes(
+	buffer: Buffer | Uint8Array,
+	options?: BinaryReaderOptions,
+): InspectNode[] {
+	const inspector = new Inspector(buffer, options);
+	const reader = inspector.reader;
+
+	try {
+		while (reader.offset < reader.length) {
+			inspector.walk();
+		}
+	} catch (err) {
+		const error =
+			err instanceof TLPackError
+				? err
+				: new TLPackError((err as Error)?.message || String(err), reader.offset);
+
+		inspector.nodes.push({
+			offset: error.offset,
+			size: 0,
+			depth: inspector.depth,
+			type: 'Error',
+			hex: '',
+			error: error.reason,
+		});
+	}
+
+	return inspector.nodes;
+}
+
+function formatNode(node: InspectNode) {
+	const parts: string[] = [];
+
+	if (typeof node.key === 'number') {
+		parts.push(`[${node.key}]`);
+	} else if (node.key !== undefined) {
+		parts.push(`${node.key}:`);
+	}
+
+	parts.push(node.type);
+
+	if (node.token !== undefined) parts.push(`token=${node.token}`);
+	if (node.length !== undefined) parts.push(`length=${node.length}`);
+	if (node.codec !== undefined) parts.push(`codec=${node.codec}`);
+	if (node.inflated !== undefined) parts.push(`inflated=${node.inflated}`);
+	if (node.dictionaryIndex !== undefined) parts.push(`#${node.dictionaryIndex}`);
+	if (node.repeat !== undefined) parts.push(`x${node.repeat}`);
+	if (node.reference !== undefined) parts.push(`-> ${node.reference}`);
+	if (node.value !== undefined) {
+		const value = JSON.stringify(node.value);
+		parts.push(value.length > VALUE_LENGTH ? value.slice(0, VALUE_LENGTH) + '…' : value);
+	}
+
+	if (node.error !== undefined) parts.push(node.error);
+
+	const offset = node.offset.toString(16).padStart(6, '0');
+	const hex = node.hex.padEnd(HEX_BYTES * 3);
+
+	return `${offset}  ${hex}  ${'  '.repeat(node.depth)}${parts.join(' ')}`;
+}
+
+/**
+ * Prints encoded buffer as an indented tree with offsets and header bytes.
+ */
+export function inspect(buffer: Buffer | Uint8Array, options?: BinaryReaderOptions) {
+	return inspectNodes(buffer, options).map(formatNode).join('\n');
+}
@@ -0,0 +1,45 @@
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
+import { CORE_TYPES } from './constants.js';
+import { StreamParser } from './streamParser.js';
+
+/**
+ * Encodes values as a dynamic vector, the dictionary is shared
+ * between all values of the source.
+ */
+export async function* encodeIterable(
+	source: AsyncIterable<any> | Iterable<any>,
+	options?: BinaryWriterOptions,
+): AsyncGenerator<Uint8Array> {
+	const writer = new BinaryWriter(options);
+
+	yield new Uint8Array([CORE_TYPES.VectorDynamic]);
+
+	for await (const value of source) {
+		yield writer.encode(value);
+	}
+
+	yield new Uint8Array([CORE_TYPES.None]);
+}
+
+/**
+ * Decodes chunks of a stream, yields each value as soon as it is complete.
+ */
+export async function* decodeIterable(
+	source: AsyncIterable<Uint8Array> | Iterable<Uint8Array>,
+	options?: BinaryReaderOptions,
+): AsyncGenerator<any> {
+	const parser = new StreamParser(new BinaryReader(new Uint8Array(0), options));
+
+	for await (const chunk of source) {
+		parser.write(chunk);
+
+		let result;
+
+		while (!(result = parser.read()).done) {
+			yield result.value;
+		}
+	}
+
+	parser.end();
+}
@@ -0,0 +1,708 @@
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
+import { CORE_TYPES } from './constants.js';
+import { InvalidConstructorError, LimitExceededError, TLPackError } from './errors.js';
+import { base64Encode, constructorName, withConstructor, withPath } from './helpers.js';
+import { TLConstructor, TLType } from './schema.js';
+
+function stringify(value: any): string {
+	const text = JSON.stringify(value);
+	return text === undefined ? 'null' : text;
+}
+
+function int64(value: number | bigint | string) {
+	// unsafe integers are not representable as JSON numbers
+	return typeof value === 'number' ? stringify(value) : `"${value}"`;
+}
+
+function bytes(value: ArrayBuffer | ArrayBufferView) {
+	const view = ArrayBuffer.isView(value)
+		? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+		: new Uint8Array(value);
+
+	return `"${base64Encode(view)}"`;
+}
+
+/**
+ * Walks tokens of the reader and writes JSON text,
+ * repeats are tracked the same way as BinaryReader does.
+ */
+class BinaryToJSON {
+	private reader: BinaryReader;
+	private constructors: Map<number, TLConstructor>;
+	private options: BinaryReaderOptions;
+	private depth: number;
+	private last: string;
+	private pool: number;
+	private references?: Array<string | undefined>;
+
+	constructor(buffer: Uint8Array, options?: BinaryReaderOptions) {
+		this.reader = new BinaryReader(buffer, { ...options, int64: 'number', binary: 'view' });
+		this.options = options || {};
+		this.constructors = new Map();
+		this.depth = 0;
+		this.last = 'null';
+		this.pool = 0;
+
+		if (options && options.references) {
+			this.references = [];
+		}
+
+		if (options && options.constructors) {
+			options.constructors.forEach((ctor) => this.constructors.set(ctor.id, ctor));
+		}
+	}
+
+	value(): string {
+		if (this.pool > 0) {
+			this.pool--;
+			return this.last;
+		}
+
+		if (this.references && this.depth === 0) {
+			this.references.length = 0;
+		}
+
+		const reader = this.reader;
+		const constructorId = reader.readByte();
+
+		let result: string;
+
+		this.assertLimit('maxDepth', ++this.depth);
+
+		try {
+			const ext = reader.readExtension(constructorId);
+
+			if (ext && ext.fields && !ext.toJSON) {
+				// fields of a class are a regular object
+				result = this.reference(() => this.value());
+			} else if (ext) {
+				const decode = () => {
+					const value = ext.decode.call(reader);
+					return stringify(ext.toJSON ? ext.toJSON(value) : value);
+				};
+
+				// class instances are referenced like objects
+				result = ext.Class ? this.reference(decode) : decode();
+			} else {
+				result = this.last = this.core(constructorId);
+			}
+		} catch (err) {
+			throw withConstructor(err, constructorId);
+		} finally {
+			this.depth--;
+		}
+
+		return result;
+	}
+
+	private core(constructorId: CORE_TYPES): string {
+		const reader = this.reader;
+
+		switch (constructorId) {
+			case CORE_TYPES.None:
+				return this.value();
+			case CORE_TYPES.Header:
+				reader.readHeader();
+				return this.value();
+			case CORE_TYPES.GZIP:
+			case CORE_TYPES.Compressed:
+				return this.gzip(constructorId);
+			case CORE_TYPES.BoolTrue:
+				return 'true';
+			case CORE_TYPES.BoolFalse:
+				return 'false';
+			case CORE_TYPES.Null:
+				return 'null';
+			case CORE_TYPES.Vector:
+			case CORE_TYPES.JSSet: {
+				const count = reader.readLength();
+
+				this.assertLimit('maxVectorLength', count);
+
+				return this.reference(() => this.list(count, () => this.value()));
+			}
+			case CORE_TYPES.VectorDynamic: {
+				let result = '[';
+				let count = 0;
+
+				while (reader.readByte() !== CORE_TYPES.None) {
+					this.assertLimit('maxVectorLength', ++count);
+					reader.seek(-1);
+
+					// elements of dynamic vector are encoded separately
+					if (this.references) {
+						this.references.length = 0;
+					}
+
+					try {
+						result += (count > 1 ? ',' : '') + this.value();
+					} catch (err) {
+						throw withPath(err, count - 1);
+					}
+				}
+
+				return result + ']';
+			}
+			case CORE_TYPES.JSMap: {
+				const count = reader.readLength();
+
+				this.assertLimit('maxMapKeys', count);
+
+				return this.reference(() =>
+					this.list(count, () => `[${this.value()},${this.value()}]`),
+				);
+			}
+			case CORE_TYPES.Map:
+				return this.reference(() => this.map());
+			case CORE_TYPES.Constructor:
+				return this.reference(() => this.constructorObject());
+			case CORE_TYPES.Ref: {
+				const index = reader.readLength();
+				const text = this.references && this.references[index];
+
+				if (!this.references || index >= this.references.length) {
+					throw new TLPackError(`Unknown reference = ${index}`, reader.offset - 1, CORE_TYPES.Ref);
+				}
+
+				if (text === undefined) {
+					throw new TLPackError(
+						'Circular reference is not representable in JSON',
+						reader.offset - 1,
+						CORE_TYPES.Ref,
+					);
+				}
+
+				return text;
+			}
+			case CORE_TYPES.Binary:
+				return bytes(reader.readBytes());
+			case CORE_TYPES.TypedArray:
+				return bytes(reader.readTypedArray(false));
+			case CORE_TYPES.String:
+				return stringify(reader.readString());
+			case CORE_TYPES.DictIndex:
+				return stringify(this.dictionaryIndex());
+			case CORE_TYPES.DictValue:
+				reader.seek(-1);
+				return stringify(reader.readDictionary());
+			case CORE_TYPES.Date:
+				return stringify(reader.readDate());
+			case CORE_TYPES.Int8:
+				return stringify(reader.readInt8());
+			case CORE_TYPES.Int16:
+				return stringify(reader.readInt16());
+			case CORE_TYPES.Int32:
+				return stringify(reader.readInt32());
+			case CORE_TYPES.Int64:
+				return int64(reader.readInt64());
+			case CORE_TYPES.UInt8:
+				return stringify(reader.readInt8(false));
+			case CORE_TYPES.UInt16:
+				return stringify(reader.readInt16(false));
+			case CORE_TYPES.UInt32:
+				return stringify(reader.readInt32(false));
+			case CORE_TYPES.UInt64:
+				return int64(reader.readInt64(false));
+			case CORE_TYPES.Float:
+				return stringify(reader.readFloat());
+			case CORE_TYPES.Double:
+				return stringify(reader.readDouble());
+			case CORE_TYPES.Repeat: {
+				this.pool = reader.readLength() - 1;
+				return this.last;
+			}
+		}
+
+		throw new InvalidConstructorError(
+			`Invalid constructor = ${constructorName(constructorId)}`,
+			reader.offset - 1,
+			constructorId,
+		);
+	}
+
+	/**
+	 * Registers the object before its nested values are read,
+	 * the text is known once the object is complete.
+	 */
+	private reference(read: () => string) {
+		if (!this.references) {
+			return read();
+		}
+
+		const index = this.references.push(undefined) - 1;
+		const text = read();
+
+		this.references[index] = text;
+
+		return text;
+	}
+
+	private list(count: number, item: () => string) {
+		let result = '[';
+
+		for (let i = 0; i < count; i++) {
+			try {
+				result += (i ? ',' : '') + item();
+			} catch (err) {
+				throw withPath(err, i);
+			}
+		}
+
+		return result + ']';
+	}
+
+	private map() {
+		const reader = this.reader;
+
+		let result = '{';
+		let key = this.key();
+		let count = 0;
+
+		while (key !== null) {
+			this.assertLimit('maxMapKeys', ++count);
+
+			try {
+				result += (count > 1 ? ',' : '') + stringify(key) + ':' + this.value();
+			} catch (err) {
+				throw withPath(err, key);
+			}
+
+			key = this.key();
+		}
+
+		return result + '}';
+	}
+
+	/**
+	 * Reads a key of Map, null at the end of Map
+	 */
+	private key() {
+		const reader = this.reader;
+
+		if (reader.readByte() === CORE_TYPES.DictIndex) {
+			return this.dictionaryIndex();
+		}
+
+		reader.seek(-1);
+		return reader.readDictionary();
+	}
+
+	/**
+	 * Reads a value of the dictionary, the constructor is already read
+	 */
+	private dictionaryIndex() {
+		const reader = this.reader;
+		const start = reader.offset - 1;
+		const index = reader.readLength();
+		const value = reader.getDictionaryValue(index);
+
+		if (value === undefined) {
+			throw new TLPackError(`Unknown dictionary index = ${index}`, start, CORE_TYPES.DictIndex);
+		}
+
+		return value;
+	}
+
+	private constructorObject() {
+		const reader = this.reader;
+		const id = reader.readInt32(false);
+		const ctor = this.constructors.get(id);
+
+		if (!ctor) {
+			throw new InvalidConstructorError(
+				`Unknown constructor id = 0x${id.toString(16)}`,
+				reader.offset - 4,
+				CORE_TYPES.Constructor,
+			);
+		}
+
+		let result = `{"_":${stringify(ctor.name)}`;
+
+		for (const field of ctor.fields) {
+			try {
+				result += `,${stringify(field.name)}:${this.typed(field.type)}`;
+			} catch (err) {
+				throw withPath(err, field.name);
+			}
+		}
+
+		return result + '}';
+	}
+
+	private typed(type: TLType): string {
+		const reader = this.reader;
+
+		if (typeof type === 'object') {
+			const count = reader.readLength();
+
+			this.assertLimit('maxVectorLength', count);
+
+			return this.list(count, () => this.typed(type.vector));
+		}
+
+		switch (type) {
+			case 'object':
+				return this.value();
+			case 'bytes':
+				return bytes(reader.readBytes());
+			case 'int64':
+			case 'uint64':
+				return int64(reader.readTyped(type));
+		}
+
+		return stringify(reader.readTyped(type));
+	}
+
+	private gzip(constructorId: CORE_TYPES) {
+		const reader = this.reader;
+		const inflated = reader.readGzip(constructorId);
+		const buffer = reader.getBuffer();
+		const position = reader.offset;
+		const pool = this.pool;
+
+		// compressed object is read by a separate reader
+		this.pool = 0;
+		reader.setBuffer(inflated);
+
+		try {
+			return this.value();
+		} finally {
+			reader.setBuffer(buffer);
+			reader.setPosition(position);
+			this.pool = pool;
+		}
+	}
+
+	private assertLimit(name: 'maxDepth' | 'maxVectorLength' | 'maxMapKeys', value: number) {
+		const max = this.options[name];
+
+		if (typeof max === 'number' && value > max) {
+			throw new LimitExceededError(name, value, max, this.reader.offset);
+		}
+	}
+}
+
+const WHITESPACE = new Set([0x20, 0x09, 0x0a, 0x0d]);
+
+const ESCAPES: Record<string, string> = {
+	'"': '"',
+	'\\': '\\',
+	'/': '/',
+	b: '\b',
+	f: '\f',
+	n: '\n',
+	r: '\r',
+	t: '\t',
+};
+
+/**
+ * Parses JSON text and writes values straight into the writer,
+ * the result is equal to encoding of `JSON.parse(text)`.
+ */
+class JSONToBinary {
+	writer: BinaryWriter;
+	private text: string;
+	private pos: number;
+
+	constructor(text: string, options?: BinaryWriterOptions) {
+		this.writer = new BinaryWriter(options);
+		this.text = text;
+		this.pos = 0;
+	}
+
+	document() {
+		this.value();
+		this.whitespace();
+
+		if (this.pos < this.text.length) {
+			throw this.unexpected();
+		}
+	}
+
+	private value(): void {
+		const writer = this.writer;
+
+		this.whitespace();
+
+		const char = this.text.charCodeAt(this.pos);
+
+		switch (char) {
+			case 0x7b: // {
+				return this.object();
+			case 0x5b: // [
+				return this.array();
+			case 0x22: // "
+				return writer.writeObject(this.string());
+			case 0x74: // t
+				return writer.writeObject(this.literal('true', true));
+			case 0x66: // f
+				return writer.writeObject(this.literal('false', false));
+			case 0x6e: // n
+				return writer.writeObject(this.literal('null', null));
+		}
+
+		if (char === 0x2d || (char >= 0x30 && char <= 0x39)) {
+			return writer.writeObject(this.number());
+		}
+
+		throw this.unexpected();
+	}
+
+	private object() {
+		const writer = this.writer;
+
+		const start = writer.offset;
+
+		this.pos++;
+		writer.writeByte(CORE_TYPES.Map);
+		this.whitespace();
+
+		if (this.text.charCodeAt(this.pos) === 0x7d) {
+			this.pos++;
+		} else {
+			for (;;) {
+				this.whitespace();
+
+				if (this.text.charCodeAt(this.pos) !== 0x22) {
+					throw this.unexpected();
+				}
+
+				const key = this.string();
+
+				this.whitespace();
+				this.expect(0x3a); // :
+
+				writer.resetRepeat();
+				writer.wireDictionary(key);
+				this.value();
+				this.whitespace();
+
+				if (this.next(0x7d)) break; // }
+
+				this.expect(0x2c); // ,
+			}
+		}
+
+		writer.writeByte(CORE_TYPES.None);
+		writer.compressFrom(start);
+		writer.resetRepeat();
+	}
+
+	private array() {
+		const writer = this.writer;
+
+		const start = writer.offset;
+
+		this.pos++;
+		writer.writeByte(CORE_TYPES.Vector);
+		writer.writeLength(this.count());
+		writer.resetRepeat();
+		this.whitespace();
+
+		if (!this.next(0x5d)) {
+			for (;;) {
+				this.value();
+				this.whitespace();
+
+				if (this.next(0x5d)) break; // ]
+
+				this.expect(0x2c); // ,
+			}
+		}
+
+		writer.compressFrom(start);
+		writer.resetRepeat();
+	}
+
+	/**
+	 * Counts elements of the array ahead without parsing them,
+	 * the vector length is written before the elements.
+	 */
+	private count() {
+		const text = this.text;
+		const length = text.length;
+
+		let depth = 0;
+		let count = 0;
+		let empty = true;
+
+		for (let i = this.pos; i < length; i++) {
+			const char = text.charCodeAt(i);
+
+			if (char === 0x22) {
+				for (i++; i < length && text.charCodeAt(i) !== 0x22; i++) {
+					if (text.charCodeAt(i) === 0x5c) i++;
+				}
+
+				empty = false;
+			} else if (char === 0x5b || char === 0x7b) {
+				depth++;
+				empty = false;
+			} else if (char === 0x5d || char === 0x7d) {
+				if (depth-- === 0) break;
+			} else if (char === 0x2c) {
+				if (depth === 0) count++;
+			} else if (!WHITESPACE.has(char)) {
+				empty = false;
+			}
+		}
+
+		return empty ? 0 : count + 1;
+	}
+
+	private string() {
+		const text = this.text;
+		const length = text.length;
+		const start = ++this.pos;
+
+		let result = '';
+		let chunk = start;
+
+		while (this.pos < length) {
+			const char = text.charCodeAt(this.pos);
+
+			if (char === 0x22) {
+				result += text.slice(chunk, this.pos++);
+				return result;
+			}
+
+			if (char < 0x20) {
+				throw this.unexpected();
+			}
+
+			if (char !== 0x5c) {
+				this.pos++;
+				continue;
+			}
+
+			result += text.slice(chunk, this.pos);
+
+			const escape = text[++this.pos];
+
+			if (escape === 'u') {
+				const hex = text.slice(this.pos + 1, this.pos + 5);
+
+				if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+					throw this.unexpected();
+				}
+
+				result += String.fromCharCode(parseInt(hex, 16));
+				this.pos += 5;
+			} else if (escape !== undefined && ESCAPES[escape] !== undefined) {
+				result += ESCAPES[escape];
+				this.pos++;
+			} else {
+				throw this.unexpected();
+			}
+
+			chunk = this.pos;
+		}
+
+		throw this.unexpected();
+	}
+
+	private number() {
+		const text = this.text;
+		const start = this.pos;
+
+		this.next(0x2d); // -
+
+		if (!this.next(0x30) && !this.digits()) {
+			throw this.unexpected();
+		}
+
+		if (this.next(0x2e) && !this.digits()) {
+			throw this.unexpected();
+		}
+
+		if (this.next(0x65) || this.next(0x45)) {
+			this.next(0x2b) || this.next(0x2d);
+
+			if (!this.digits()) {
+				throw this.unexpected();
+			}
+		}
+
+		return Number(text.slice(start, this.pos));
+	}
+
+	private digits() {
+		const start = this.pos;
+
+		while (this.pos < this.text.length) {
+			const char = this.text.charCodeAt(this.pos);
+
+			if (char < 0x30 || char > 0x39) break;
+
+			this.pos++;
+		}
+
+		return this.pos > start;
+	}
+
+	private literal<T>(word: string, value: T): T {
+		if (!this.text.startsWith(word, this.pos)) {
+			throw this.unexpected();
+		}
+
+		this.pos += word.length;
+
+		return value;
+	}
+
+	private whitespace() {
+		while (WHITESPACE.has(this.text.charCodeAt(this.pos))) {
+			this.pos++;
+		}
+	}
+
+	private next(char: number) {
+		if (this.text.charCodeAt(this.pos) === char) {
+			this.pos++;
+			return true;
+		}
+
+		return false;
+	}
+
+	private expect(char: number) {
+		if (!this.next(char)) {
+			throw this.unexpected();
+		}
+	}
+
+	private unexpected() {
+		if (this.pos >= this.text.length) {
+			return new SyntaxError(`Unexpected end of JSON input at position ${this.pos}`);
+		}
+
+		return new SyntaxError(
+			`Unexpected token ${JSON.stringify(this.text[this.pos])} in JSON at position ${this.pos}`,
+		);
+	}
+}
+
+/**
+ * Transcodes an encoded object into JSON text without building it.
+ * `Date` is written as ISO string, `Binary` and typed arrays as base64,
+ * ES Map as an array of entries and extensions by their `toJSON`.
+ */
+export function binaryToJSON(buffer: Buffer | Uint8Array, options?: BinaryReaderOptions) {
+	return new BinaryToJSON(buffer, options).value();
+}
+
+/**
+ * Encodes JSON text without parsing it into objects first.
+ */
+export function jsonToBinary(text: string, options?: BinaryWriterOptions) {
+	const transcoder = new JSONToBinary(text, options);
+
+	if (options && options.fingerprint) {
+		transcoder.writer.writeHeader();
+	}
+
+	transcoder.document();
+
+	return transcoder.writer.getBuffer();
+}
@@ -0,0 +1,244 @@
+import type { BinaryReader, ReferenceScope } from './BinaryReader.js';
+import { CORE_TYPES } from './constants.js';
+import { TLPackError } from './errors.js';
+
+/**
+ * Decodes lazy views into plain values, a view referenced
+ * more than once is decoded into the same value.
+ */
+function materialize(value: any, seen: Map<any, any>): any {
+	if (!(value instanceof LazyMap || value instanceof LazyVector)) {
+		return value;
+	}
+
+	if (seen.has(value)) {
+		return seen.get(value);
+	}
+
+	if (value instanceof LazyMap) {
+		const result: Record<string, any> = {};
+
+		seen.set(value, result);
+
+		for (const [key, item] of value) {
+			result[key] = materialize(item, seen);
+		}
+
+		return result;
+	}
+
+	const result = new Array(value.length);
+
+	seen.set(value, result);
+
+	for (let i = 0; i < value.length; i++) {
+		result[i] = materialize(value.get(i), seen);
+	}
+
+	return result;
+}
+
+/**
+ * View over encoded Map, values are decoded only when accessed.
+ * The view is valid while the reader buffer is not replaced.
+ */
+export class LazyMap {
+	private reader: BinaryReader;
+	private offsets: Map<string, number>;
+	private scopes: Map<string, ReferenceScope>;
+	private cache: Map<string, any>;
+
+	constructor(reader: BinaryReader) {
+		this.reader = reader;
+		this.offsets = new Map();
+		this.scopes = new Map();
+		this.cache = new Map();
+
+		let key = reader.readDictionary();
+
+		while (key !== null) {
+			reader.assertLimit('maxMapKeys', this.offsets.size + 1);
+
+			const scope = reader.referenceScope();
+
+			if (scope) {
+				this.scopes.set(key, scope);
+			}
+
+			this.offsets.set(key, reader.offset);
+			reader.skipObject();
+			key = reader.readDictionary();
+		}
+	}
+
+	get size() {
+		return this.offsets.size;
+	}
+
+	has(key: string) {
+		return this.offsets.has(key);
+	}
+
+	keys() {
+		return this.offsets.keys();
+	}
+
+	get(key: string): any {
+		if (this.cache.has(key)) {
+			return this.cache.get(key);
+		}
+
+		const offset = this.offsets.get(key);
+
+		if (offset === undefined) return;
+
+		const value = this.reader.readLazyAt(offset, this.scopes.get(key));
+
+		this.cache.set(key, value);
+
+		return value;
+	}
+
+	*entries(): IterableIterator<[string, any]> {
+		for (const key of this.offsets.keys()) {
+			yield [key, this.get(key)];
+		}
+	}
+
+	[Symbol.iterator]() {
+		return this.entries();
+	}
+
+	/**
+	 * Decodes all values into a plain object.
+	 */
+	toObject(): Record<string, any> {
+		return materialize(this, new Map());
+	}
+
+	toJSON() {
+		return this.toObject();
+	}
+}
+
+/**
+ * View over encoded Vector, items are decoded only when accessed.
+ * The view is valid while the reader buffer is not replaced.
+ */
+export class LazyVector {
+	private reader: BinaryReader;
+	private offsets: number[];
+	/**
+	 * Index of the item holding the value, differs for repeated values
+	 */
+	private origins: number[];
+	private scopes: Map<number, ReferenceScope>;
+	private cache: Map<number, any>;
+
+	constructor(reader: BinaryReader, dynamic = false) {
+		this.reader = reader;
+		this.offsets = [];
+		this.origins = [];
+		this.scopes = new Map();
+		this.cache = new Map();
+
+		const count = dynamic ? Infinity : reader.readLength();
+
+		if (!dynamic) {
+			reader.assertLimit('maxVectorLength', count);
+		}
+
+		while (this.offsets.length < count) {
+			const offset = reader.offset;
+			const constructorId = reader.readByte();
+
+			if (dynamic && constructorId === CORE_TYPES.None) {
+				break;
+			}
+
+			if (constructorId === CORE_TYPES.Repeat) {
+				const size = reader.readLength();
+				const index = this.offsets.length;
+
+				if (index === 0 || size === 0 || index + size > count) {
+					throw new TLPackError(
+						`Invalid repeat of ${size} values at index ${index} of ${count}`,
+						reader.offset - 1,
+						CORE_TYPES.Repeat,
+					);
+				}
+
+				reader.assertLimit('maxVectorLength', index + size);
+
+				const origin = this.origins[index - 1];
+
+				for (let i = 0; i < size; i++) {
+					this.offsets.push(offset);
+					this.origins.push(origin);
+				}
+
+				continue;
+			}
+
+			reader.seek(-1);
+
+			// elements of dynamic vector are encoded separately
+			if (dynamic) {
+				reader.assertLimit('maxVectorLength', this.offsets.length + 1);
+				reader.resetReferences();
+			}
+
+			const scope = reader.referenceScope();
+
+			if (scope) {
+				this.scopes.set(this.offsets.length, scope);
+			}
+
+			reader.skipObject();
+
+			this.origins.push(this.offsets.length);
+			this.offsets.push(offset);
+		}
+	}
+
+	get length() {
+		return this.offsets.length;
+	}
+
+	get(index: number): any {
+		const origin = this.origins[index];
+
+		if (origin === undefined) return;
+
+		if (this.cache.has(origin)) {
+			return this.cache.get(origin);
+		}
+
+		const value = this.reader.readLazyAt(this.offsets[origin], this.scopes.get(origin));
+
+		this.cache.set(origin, value);
+
+		return value;
+	}
+
+	*values(): IterableIterator<any> {
+		for (let i = 0; i < this.offsets.length; i++) {
+			yield this.get(i);
+		}
+	}
+
+	[Symbol.iterator]() {
+		return this.values();
+	}
+
+	/**
+	 * Decodes all items into an array.
+	 */
+	toArray(): any[] {
+		return materialize(this, new Map());
+	}
+
+	toJSON() {
+		return this.toArray();
+	}
+}
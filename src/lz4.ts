@@ -0,0 +1,166 @@
+const MIN_MATCH = 4;
+const HASH_LOG = 16;
+const MAX_OFFSET = 0xffff;
+// the last match must start 12 bytes before the end
+const MF_LIMIT = 12;
+// the last 5 bytes are always literals
+const LAST_LITERALS = 5;
+
+function read32(src: Uint8Array, pos: number) {
+	return src[pos] | (src[pos + 1] << 8) | (src[pos + 2] << 16) | (src[pos + 3] << 24);
+}
+
+function writeLength(out: Uint8Array, op: number, length: number) {
+	while (length >= 255) {
+		out[op++] = 255;
+		length -= 255;
+	}
+
+	out[op++] = length;
+
+	return op;
+}
+
+function readLength(src: Uint8Array, ip: number, length: number): [number, number] {
+	let byte;
+
+	do {
+		if (ip >= src.length) {
+			throw new RangeError('Invalid LZ4 block: unexpected end');
+		}
+
+		byte = src[ip++];
+		length += byte;
+	} while (byte === 255);
+
+	return [ip, length];
+}
+
+/**
+ * Compresses data into a raw LZ4 block.
+ */
+export function lz4Compress(src: Uint8Array): Uint8Array {
+	const length = src.length;
+	const out = new Uint8Array(length + Math.ceil(length / 255) + 16);
+	const table = new Int32Array(1 << HASH_LOG).fill(-1);
+	const limit = length - MF_LIMIT;
+
+	let ip = 0;
+	let op = 0;
+	let anchor = 0;
+
+	while (ip < limit) {
+		const sequence = read32(src, ip);
+		const hash = Math.imul(sequence, 2654435761) >>> (32 - HASH_LOG);
+		const ref = table[hash];
+
+		table[hash] = ip;
+
+		if (ref < 0 || ip - ref > MAX_OFFSET || read32(src, ref) !== sequence) {
+			ip++;
+			continue;
+		}
+
+		const maxMatch = length - LAST_LITERALS - ip;
+
+		let match = MIN_MATCH;
+
+		while (match < maxMatch && src[ip + match] === src[ref + match]) {
+			match++;
+		}
+
+		const literals = ip - anchor;
+		const token = op++;
+
+		out[token] = (Math.min(literals, 15) << 4) | Math.min(match - MIN_MATCH, 15);
+
+		if (literals >= 15) {
+			op = writeLength(out, op, literals - 15);
+		}
+
+		out.set(src.subarray(anchor, ip), op);
+		op += literals;
+
+		out[op++] = ip - ref;
+		out[op++] = (ip - ref) >> 8;
+
+		if (match - MIN_MATCH >= 15) {
+			op = writeLength(out, op, match - MIN_MATCH - 15);
+		}
+
+		ip += match;
+		anchor = ip;
+	}
+
+	const literals = length - anchor;
+
+	out[op++] = Math.min(literals, 15) << 4;
+
+	if (literals >= 15) {
+		op = writeLength(out, op, literals - 15);
+	}
+
+	out.set(src.subarray(anchor), op);
+	op += literals;
+
+	return out.subarray(0, op);
+}
+
+/**
+ * Decompresses a raw LZ4 block of the known decompressed size.
+ */
+export function lz4Decompress(src: Uint8Array, size: number): Uint8Array {
+	const out = new Uint8Array(size);
+
+	let ip = 0;
+	let op = 0;
+
+	while (ip < src.length) {
+		const token = src[ip++];
+
+		let literals = token >> 4;
+
+		if (literals === 15) {
+			[ip, literals] = readLength(src, ip, literals);
+		}
+
+		if (ip + literals > src.length || op + literals > size) {
+			throw new RangeError('Invalid LZ4 block: literals out of bounds');
+		}
+
+		out.set(src.subarray(ip, ip + literals), op);
+		ip += literals;
+		op += literals;
+
+		if (ip === src.length) break;
+
+		if (ip + 2 > src.length) {
+			throw new RangeError('Invalid LZ4 block: unexpected end');
+		}
+
+		const offset = src[ip++] | (src[ip++] << 8);
+
+		let match = token & 15;
+
+		if (match === 15) {
+			[ip, match] = readLength(src, ip, match);
+		}
+
+		match += MIN_MATCH;
+
+		if (offset === 0 || offset > op || op + match > size) {
+			throw new RangeError('Invalid LZ4 block: match out of bounds');
+		}
+
+		// byte by byte, a match may overlap the output
+		for (let ref = op - offset, end = op + match; op < end; ) {
+			out[op++] = out[ref++];
+		}
+	}
+
+	if (op !== size) {
+		throw new RangeError(`Invalid LZ4 block: expected ${size} bytes, got ${op}`);
+	}
+
+	return out;
+}
@@ -0,0 +1,378 @@
+import { EventEmitter } from 'node:events';
+import { Duplex } from 'node:stream';
+import { FrameEncoder, type FrameOptions } from './framing.js';
+import type { Dictionary } from './dictionary.js';
+import type { TLExtension } from './extension.js';
+import { TLFrameDecode } from './stream.js';
+
+export enum RPC_MESSAGE_TYPES {
+	Request = 0,
+	Notification = 1,
+	Result = 2,
+	Error = 3,
+	Cancel = 4,
+}
+
+export interface RpcCallOptions {
+	timeout?: number;
+	signal?: AbortSignal;
+}
+
+export interface RpcContext {
+	id?: number;
+	method: string;
+	signal: AbortSignal;
+	peer: RpcPeer;
+}
+
+export type RpcHandler = (params: any, context: RpcContext) => any;
+
+export interface RpcPeerOptions extends Pick<FrameOptions, 'maxFrameSize'> {
+	dictionary?: string[] | Dictionary;
+	extensions?: TLExtension[];
+	/**
+	 * Default timeout of calls in milliseconds, 0 disables it
+	 */
+	timeout?: number;
+	handlers?: Record<string, RpcHandler>;
+}
+
+interface PendingCall {
+	resolve: (value: any) => void;
+	reject: (err: Error) => void;
+	cleanup: () => void;
+}
+
+export class RpcError extends Error {
+	code: string;
+	data?: any;
+
+	constructor(message: string, code = 'INTERNAL_ERROR', data?: any) {
+		super(message);
+		this.name = 'RpcError';
+		this.code = code;
+
+		if (data !== undefined) {
+			this.data = data;
+		}
+	}
+}
+
+/**
+ * Peer of RPC connection over a duplex stream, both sides are able to call
+ * methods of each other. Messages are length-prefixed frames
+ * sharing the dictionary for the connection lifetime.
+ */
+export class RpcPeer extends EventEmitter {
+	stream: Duplex;
+	private encoder: FrameEncoder;
+	private decoder: TLFrameDecode;
+	private handlers: Map<string, RpcHandler>;
+	private calls: Map<number, PendingCall>;
+	private running: Map<number, AbortController>;
+	private timeout: number;
+	private nextId: number;
+	private closed: boolean;
+
+	constructor(stream: Duplex, options?: RpcPeerOptions) {
+		super();
+
+		const opts = options || {};
+		const frameOptions = { ...opts, shareDictionary: true };
+
+		this.stream = stream;
+		this.handlers = new Map(Object.entries(opts.handlers || {}));
+		this.calls = new Map();
+		this.running = new Map();
+		this.timeout = opts.timeout === undefined ? 30000 : opts.timeout;
+		this.nextId = 1;
+		this.closed = false;
+
+		this.encoder = new FrameEncoder(frameOptions);
+		this.decoder = new TLFrameDecode(frameOptions);
+
+		stream.pipe(this.decoder);
+
+		this.decoder.on('data', (message) => this.onMessage(message));
+		this.decoder.on('error', (err) => this.fail(err));
+		stream.on('error', (err) => this.fail(err));
+		stream.on('close', () => this.close());
+		this.decoder.on('end', () => this.close());
+	}
+
+	register(method: string, handler: RpcHandler) {
+		this.handlers.set(method, handler);
+		return this;
+	}
+
+	unregister(method: string) {
+		this.handlers.delete(method);
+		return this;
+	}
+
+	call(method: string, params?: any, options?: RpcCallOptions): Promise<any> {
+		if (this.closed) {
+			return Promise.reject(new RpcError('Connection closed', 'CONNECTION_CLOSED'));
+		}
+
+		const id = this.nextId++;
+		const timeout = options && options.timeout !== undefined ? options.timeout : this.timeout;
+		const signal = options && options.signal;
+
+		if (signal && signal.aborted) {
+			return Promise.reject(new RpcError('Call cancelled', 'CANCELLED'));
+		}
+
+		return new Promise((resolve, reject) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+
+			const onAbort = () => {
+				this.cancel(id, new RpcError('Call cancelled', 'CANCELLED'));
+			};
+
+			const cleanup = () => {
+				if (timer) clearTimeout(timer);
+				if (signal) signal.removeEventListener('abort', onAbort);
+				this.calls.delete(id);
+			};
+
+			this.calls.set(id, { resolve, reject, cleanup });
+
+			if (timeout > 0) {
+				timer = setTimeout(() => {
+					this.cancel(
+						id,
+						new RpcError(`Call of ${method} timed out after ${timeout}ms`, 'TIMEOUT'),
+					);
+				}, timeout);
+			}
+
+			if (signal) {
+				signal.addEventListener('abort', onAbort);
+			}
+
+			try {
+				this.send({ t: RPC_MESSAGE_TYPES.Request, id, method, params });
+			} catch (err) {
+				// params are not encodable, only this call fails
+				cleanup();
+				reject(err);
+			}
+		});
+	}
+
+	notify(method: string, params?: any) {
+		if (this.closed) {
+			throw new RpcError('Connection closed', 'CONNECTION_CLOSED');
+		}
+
+		this.send({ t: RPC_MESSAGE_TYPES.Notification, method, params });
+	}
+
+	/**
+	 * Rejects pending calls, aborts running handlers and ends the stream.
+	 */
+	close() {
+		if (this.closed) return;
+
+		this.closed = true;
+
+		for (const call of this.calls.values()) {
+			call.cleanup();
+			call.reject(new RpcError('Connection closed', 'CONNECTION_CLOSED'));
+		}
+
+		for (const controller of this.running.values()) {
+			controller.abort();
+		}
+
+		this.running.clear();
+		this.stream.end();
+		this.emit('close');
+	}
+
+	private cancel(id: number, err: RpcError) {
+		const call = this.calls.get(id);
+
+		if (!call) return;
+
+		call.cleanup();
+		call.reject(err);
+
+		if (!this.closed) {
+			this.send({ t: RPC_MESSAGE_TYPES.Cancel, id });
+		}
+	}
+
+	private fail(err: Error) {
+		if (this.listenerCount('error')) {
+			this.emit('error', err);
+		}
+
+		this.close();
+		this.stream.destroy();
+	}
+
+	/**
+	 * Encodes the message before writing it, a message failed to encode
+	 * throws and leaves the connection usable.
+	 */
+	private send(message: Record<string, any>) {
+		this.stream.write(this.encoder.encode(message));
+	}
+
+	/**
+	 * Sends the error response, when the error data is not encodable
+	 * the response is sent without it.
+	 */
+	private sendError(id: number | undefined, error: { message: string; code: string; data?: any }) {
+		try {
+			this.send({ t: RPC_MESSAGE_TYPES.Error, id, error });
+		} catch {
+			const { message, code } = error;
+
+			this.send({ t: RPC_MESSAGE_TYPES.Error, id, error: { message, code } });
+		}
+	}
+
+	private onMessage(message: any) {
+		if (!message || typeof message !== 'object') {
+			return this.fail(new RpcError('Invalid message', 'INVALID_MESSAGE'));
+		}
+
+		switch (message.t) {
+			case RPC_MESSAGE_TYPES.Request:
+			case RPC_MESSAGE_TYPES.Notification:
+				return this.onRequest(message);
+
+			case RPC_MESSAGE_TYPES.Result: {
+				const call = this.calls.get(message.id);
+
+				if (call) {
+					call.cleanup();
+					call.resolve(message.result);
+				}
+
+				return;
+			}
+
+			case RPC_MESSAGE_TYPES.Error: {
+				const call = this.calls.get(message.id);
+
+				if (call) {
+					const error = message.error || {};
+
+					call.cleanup();
+					call.reject(new RpcError(error.message, error.code, error.data));
+				}
+
+				return;
+			}
+
+			case RPC_MESSAGE_TYPES.Cancel: {
+				const controller = this.running.get(message.id);
+
+				if (controller) {
+					this.running.delete(message.id);
+					controller.abort();
+				}
+
+				return;
+			}
+		}
+
+		this.fail(new RpcError(`Unknown message type ${message.t}`, 'INVALID_MESSAGE'));
+	}
+
+	private async onRequest(message: any) {
+		const isRequest = message.t === RPC_MESSAGE_TYPES.Request;
+		const id: number | undefined = isRequest ? message.id : undefined;
+		const handler = this.handlers.get(message.method);
+		const controller = new AbortController();
+
+		if (!isRequest) {
+			this.emit('notification', message.method, message.params);
+		}
+
+		if (!handler) {
+			if (isRequest) {
+				this.sendError(id, {
+					message: `Method ${message.method} not found`,
+					code: 'METHOD_NOT_FOUND',
+				});
+			}
+
+			return;
+		}
+
+		if (id !== undefined) {
+			this.running.set(id, controller);
+		}
+
+		let result;
+		let error;
+
+		try {
+			result = await handler(message.params, {
+				id,
+				method: message.method,
+				signal: controller.signal,
+				peer: this,
+			});
+		} catch (err) {
+			error = err || new Error('Unknown error');
+		}
+
+		if (id === undefined) {
+			if (error) this.emit('handlerError', error, message.method);
+			return;
+		}
+
+		// cancelled by caller or connection closed
+		if (controller.signal.aborted || this.closed) return;
+
+		this.running.delete(id);
+
+		if (error) {
+			this.sendError(id, {
+				message: (error as Error).message || String(error),
+				code: (error as RpcError).code || 'INTERNAL_ERROR',
+				data: (error as RpcError).data,
+			});
+			return;
+		}
+
+		try {
+			this.send({ t: RPC_MESSAGE_TYPES.Result, id, result });
+		} catch (err) {
+			this.sendError(id, {
+				message: (err as Error).message || String(err),
+				code: 'ENCODE_ERROR',
+			});
+		}
+	}
+}
+
+/**
+ * Creates two connected in-memory duplex streams,
+ * data written to one of them is readable from another.
+ */
+export function createDuplexPair(): [Duplex, Duplex] {
+	const create = (getOther: () => Duplex) =>
+		new Duplex({
+			read() {},
+			write(chunk, encoding, callback) {
+				getOther().push(chunk);
+				callback();
+			},
+			final(callback) {
+				getOther().push(null);
+				callback();
+			},
+		});
+
+	const a: Duplex = create(() => b);
+	const b: Duplex = create(() => a);
+
+	return [a, b];
+}
@@ -0,0 +1,93 @@
+export type TLPrimitiveType =
+	| 'bool'
+	| 'int8'
+	| 'int16'
+	| 'int32'
+	| 'int64'
+	| 'uint8'
+	| 'uint16'
+	| 'uint32'
+	| 'uint64'
+	| 'float'
+	| 'double'
+	| 'string'
+	| 'bytes'
+	| 'date'
+	| 'object';
+
+export type TLType = TLPrimitiveType | { vector: TLType };
+
+export interface TLField {
+	name: string;
+	type: TLType;
+}
+
+export interface TLConstructor {
+	id: number;
+	name: string;
+	fields: TLField[];
+}
+
+const PRIMITIVE_TYPES = new Set<string>([
+	'bool',
+	'int8',
+	'int16',
+	'int32',
+	'int64',
+	'uint8',
+	'uint16',
+	'uint32',
+	'uint64',
+	'float',
+	'double',
+	'string',
+	'bytes',
+	'date',
+	'object',
+]);
+
+function assertType(type: TLType) {
+	if (typeof type === 'string') {
+		if (!PRIMITIVE_TYPES.has(type)) {
+			throw new TypeError(`Unknown field type ${type}`);
+		}
+	} else if (type && typeof type === 'object' && 'vector' in type) {
+		assertType(type.vector);
+	} else {
+		throw new TypeError(`Unknown field type ${type}`);
+	}
+}
+
+/**
+ * Creates TL-style constructor, objects with `_` equal to the constructor name
+ * are encoded as the constructor id followed by raw field values.
+ */
+export function createConstructor(
+	id: number,
+	{ name, fields }: { name: string; fields: TLField[] },
+): TLConstructor {
+	if (id >>> 0 !== id) {
+		throw new TypeError('Constructor id must be a 32 bit unsigned number');
+	}
+
+	if (typeof name !== 'string' || !name) {
+		throw new TypeError('Constructor name must be a non empty string');
+	}
+
+	const names = new Set<string>();
+
+	fields.forEach((field) => {
+		if (field.name === '_' || names.has(field.name)) {
+			throw new TypeError(`Invalid field name ${field.name} of constructor ${name}`);
+		}
+
+		names.add(field.name);
+		assertType(field.type);
+	});
+
+	return {
+		id,
+		name,
+		fields,
+	};
+}
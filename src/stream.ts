@@ -1,7 +1,27 @@
 import { Transform, type TransformCallback, type TransformOptions } from 'stream';
 import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
-import { BinaryReader } from './BinaryReader.js';
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
 import { CORE_TYPES } from './constants.js';
+import { TLPackError } from './errors.js';
+import {
+	FrameDecoder,
+	FrameDecoderOptions,
+	FrameEncoder,
+	FrameEncoderOptions,
+} from './framing.js';
+import { StreamParser } from './streamParser.js';
+
+/**
+ * Pushing `null` ends an object mode stream, so null elements are rejected
+ * instead of silently ending it. `decodeIterable` yields them.
+ */
+function nullElementError(reader: BinaryReader) {
+	return new TLPackError(
+		'Null element is not supported by object mode streams, use decodeIterable',
+		reader.offset - 1,
+		CORE_TYPES.Null,
+	);
+}
 
 export interface TLEncodeOptions extends BinaryWriterOptions {
 	streamOptions?: TransformOptions;
@@ -12,14 +32,17 @@ export class TLEncode extends Transform {
 	count: number;
 
 	constructor(options?: TLEncodeOptions) {
-		const opts = options || {};
-		opts.streamOptions = { writableObjectMode: true, ...(opts.streamOptions || {}) };
+		// options of the caller are not modified
+		const streamOptions: TransformOptions = {
+			writableObjectMode: true,
+			...(options && options.streamOptions),
+		};
 
-		super(opts.streamOptions);
+		super(streamOptions);
 
 		const writer = new BinaryWriter(options);
 
-		const customFlush = opts.streamOptions.flush;
+		const customFlush = streamOptions.flush;
 
 		const VECTOR_TYPES = new Uint8Array(2);
 
@@ -54,33 +77,164 @@ export class TLEncode extends Transform {
 
 export class TLDecode extends Transform {
 	reader: BinaryReader;
-	private incompleteBuffer: Buffer | null;
+	private parser: StreamParser;
+	private pendingCallback: TransformCallback | null;
+
+	/**
+	 * @param options Options of the transform stream, it is always in object mode
+	 * @param readerOptions Options of the reader, e.g. a static dictionary or limits
+	 */
+	constructor(options?: TransformOptions, readerOptions?: BinaryReaderOptions) {
+		super({ ...options, objectMode: true });
+
+		this.pendingCallback = null;
+		this.reader = new BinaryReader(new Uint8Array(8192), readerOptions);
+		this.parser = new StreamParser(this.reader);
+	}
+
+	_transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback) {
+		this.parser.write(chunk);
+		this.parse(callback);
+	}
+
+	_read(size: number) {
+		if (this.pendingCallback) {
+			const callback = this.pendingCallback;
+			this.pendingCallback = null;
+			this.parse(callback);
+		}
+
+		super._read(size);
+	}
+
+	_flush(callback: TransformCallback) {
+		try {
+			this.parser.end();
+		} catch (err) {
+			return callback(err as any);
+		}
+
+		callback();
+	}
+
+	/**
+	 * Pushes complete elements, stops when the consumer is full.
+	 */
+	private parse(callback: TransformCallback) {
+		let result;
+
+		try {
+			while (!(result = this.parser.read()).done) {
+				if (result.value === null) {
+					throw nullElementError(this.reader);
+				}
+
+				if (!this.push(result.value)) {
+					this.pendingCallback = callback;
+					return;
+				}
+			}
+		} catch (err) {
+			return callback(err as any);
+		}
+
+		callback();
+	}
+}
+
+export interface TLFrameEncodeOptions extends FrameEncoderOptions {
+	streamOptions?: TransformOptions;
+}
+
+export interface TLFrameDecodeOptions extends FrameDecoderOptions {
+	streamOptions?: TransformOptions;
+}
+
+/**
+ * Encodes each value into a length-prefixed frame.
+ */
+export class TLFrameEncode extends Transform {
+	encoder: FrameEncoder;
 
-	constructor(options?: TransformOptions) {
-		if (!options) options = {};
-		options.objectMode = true;
-		super(options);
+	constructor(options?: TLFrameEncodeOptions) {
+		super({ writableObjectMode: true, ...((options && options.streamOptions) || {}) });
 
-		this.incompleteBuffer = null;
-		this.reader = new BinaryReader(new Uint8Array(8192));
+		this.encoder = new FrameEncoder(options);
 	}
 
 	_transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback) {
-		if (this.incompleteBuffer) {
-			chunk = Buffer.concat([this.incompleteBuffer, chunk]);
-			this.incompleteBuffer = null;
+		let frame;
+
+		try {
+			frame = this.encoder.encode(chunk);
+		} catch (err) {
+			return callback(err as any);
 		}
 
+		callback(null, frame);
+	}
+}
+
+/**
+ * Decodes length-prefixed frames, emits a value per frame.
+ */
+export class TLFrameDecode extends Transform {
+	decoder: FrameDecoder;
+	private pendingCallback: TransformCallback | null;
+
+	constructor(options?: TLFrameDecodeOptions) {
+		super({ ...((options && options.streamOptions) || {}), readableObjectMode: true });
+
+		this.decoder = new FrameDecoder(options);
+		this.pendingCallback = null;
+	}
+
+	_transform(chunk: any, encoding: BufferEncoding, callback: TransformCallback) {
+		this.decoder.write(chunk);
+		this.parse(callback);
+	}
+
+	_read(size: number) {
+		if (this.pendingCallback) {
+			const callback = this.pendingCallback;
+			this.pendingCallback = null;
+			this.parse(callback);
+		}
+
+		super._read(size);
+	}
+
+	_flush(callback: TransformCallback) {
 		try {
-			const value = this.reader.decode(chunk);
-			return callback(null, value);
+			this.decoder.end();
 		} catch (err) {
-			if ((err as any)?.incomplete) {
-				this.incompleteBuffer = chunk;
-				return callback();
-			}
+			return callback(err as any);
+		}
+
+		callback();
+	}
 
+	/**
+	 * Pushes complete frames, stops when the consumer is full.
+	 */
+	private parse(callback: TransformCallback) {
+		let result;
+
+		try {
+			while (!(result = this.decoder.read()).done) {
+				if (result.value === null) {
+					throw nullElementError(this.decoder.reader);
+				}
+
+				if (!this.push(result.value)) {
+					this.pendingCallback = callback;
+					return;
+				}
+			}
+		} catch (err) {
 			return callback(err as any);
 		}
+
+		callback();
 	}
 }
@@ -0,0 +1,138 @@
+import { BinaryReader } from './BinaryReader.js';
+import { CORE_TYPES } from './constants.js';
+import { IncompleteDataError } from './errors.js';
+import { byteArrayAllocate } from './helpers.js';
+
+export type StreamParserResult = { done: true } | { done: false; value: any };
+
+const DONE: StreamParserResult = { done: true };
+
+/**
+ * Incremental parser of a stream, which is a dynamic vector
+ * or a sequence of plain values.
+ *
+ * Complete elements are parsed only once, an incomplete tail
+ * is kept until more data is written. The tail is parsed again
+ * only when the bytes it was missing have arrived.
+ */
+export class StreamParser {
+	reader: BinaryReader;
+	private started: boolean;
+	private dynamic: boolean;
+	private ended: boolean;
+	private chunks: Uint8Array[];
+	private buffered: number;
+	/**
+	 * Count of bytes required to parse the incomplete tail, at least
+	 */
+	private required: number;
+
+	constructor(reader: BinaryReader) {
+		this.reader = reader;
+		this.started = false;
+		this.dynamic = false;
+		this.ended = false;
+		this.chunks = [];
+		this.buffered = 0;
+		this.required = 0;
+
+		reader.setBuffer(new Uint8Array(0));
+	}
+
+	write(chunk: Uint8Array) {
+		this.chunks.push(chunk);
+		this.buffered += chunk.length;
+	}
+
+	/**
+	 * Joins the unread tail with written chunks.
+	 */
+	private flush() {
+		const reader = this.reader;
+		const tail = reader.getBuffer().subarray(reader.offset, reader.length);
+
+		if (!tail.length && this.chunks.length === 1) {
+			reader.setBuffer(this.chunks[0]);
+		} else {
+			const buffer = byteArrayAllocate(tail.length + this.buffered);
+
+			let offset = tail.length;
+
+			buffer.set(tail, 0);
+
+			for (const chunk of this.chunks) {
+				buffer.set(chunk, offset);
+				offset += chunk.length;
+			}
+
+			reader.setBuffer(buffer);
+		}
+
+		this.chunks = [];
+		this.buffered = 0;
+		this.required = 0;
+	}
+
+	/**
+	 * Reads next complete element, `done` means more data required.
+	 */
+	read(): StreamParserResult {
+		const reader = this.reader;
+
+		if (this.buffered) {
+			if (reader.length - reader.offset + this.buffered < this.required) {
+				return DONE;
+			}
+
+			this.flush();
+		}
+
+		while (reader.offset < reader.length) {
+			const start = reader.offset;
+
+			try {
+				if (!this.started) {
+					this.started = true;
+					this.dynamic = reader.readByte() === CORE_TYPES.VectorDynamic;
+					this.ended = false;
+
+					if (!this.dynamic) reader.seek(-1);
+
+					continue;
+				}
+
+				if (this.dynamic && reader.readByte() === CORE_TYPES.None) {
+					// next vector may follow
+					this.ended = true;
+					this.started = false;
+					continue;
+				} else if (this.dynamic) {
+					reader.seek(-1);
+				}
+
+				return { done: false, value: reader.readObject() };
+			} catch (err) {
+				if (err instanceof IncompleteDataError) {
+					this.required = reader.length - start + err.missing;
+					reader.setPosition(start);
+					break;
+				}
+
+				throw err;
+			}
+		}
+
+		return DONE;
+	}
+
+	/**
+	 * Asserts the stream is not ended in the middle of a value.
+	 */
+	end() {
+		const reader = this.reader;
+
+		if (reader.offset < reader.length || this.buffered || (this.dynamic && !this.ended)) {
+			throw new IncompleteDataError('Stream ended with incomplete data', reader.offset);
+		}
+	}
+}
@@ -0,0 +1,335 @@
+import type { TLDefinition, TLParam, TLSchemaDefinition, TLTypeRef } from './tlParser.js';
+
+export interface TLGeneratorOptions {
+	/**
+	 * Module to import BinaryWriter and BinaryReader from
+	 */
+	importFrom?: string;
+}
+
+interface Primitive {
+	ts: string;
+	encode: (value: string) => string;
+	decode: string;
+}
+
+const PRIMITIVES: Record<string, Primitive> = {
+	int: {
+		ts: 'number',
+		encode: (value) => `writer.writeInt32(${value})`,
+		decode: 'reader.readInt32()',
+	},
+	long: {
+		ts: 'Long',
+		encode: (value) => `writer.writeInt64(${value})`,
+		decode: 'reader.readInt64() as Long',
+	},
+	float: {
+		ts: 'number',
+		encode: (value) => `writer.writeFloat(${value})`,
+		decode: 'reader.readFloat()',
+	},
+	double: {
+		ts: 'number',
+		encode: (value) => `writer.writeDouble(${value})`,
+		decode: 'reader.readDouble()',
+	},
+	string: {
+		ts: 'string',
+		encode: (value) => `writer.writeString(${value})`,
+		decode: 'reader.readString()',
+	},
+	bytes: {
+		ts: 'Uint8Array',
+		encode: (value) => `writer.writeBytes(${value})`,
+		decode: 'reader.readBytes()',
+	},
+	date: {
+		ts: 'Date',
+		encode: (value) => `writer.writeDate(${value})`,
+		decode: 'reader.readDate()',
+	},
+	Bool: {
+		ts: 'boolean',
+		encode: (value) => `writer.writeBool(${value})`,
+		decode: 'reader.readBool()',
+	},
+	Object: {
+		ts: 'any',
+		encode: (value) => `writer.writeObject(${value})`,
+		decode: 'reader.readObject()',
+	},
+};
+
+const VECTOR_TYPES = new Set(['Vector', 'vector']);
+
+function pascalCase(name: string) {
+	return name
+		.split(/[._]/)
+		.filter(Boolean)
+		.map((part) => part[0].toUpperCase() + part.slice(1))
+		.join('');
+}
+
+function hex(id: number) {
+	return `0x${id.toString(16).padStart(8, '0')}`;
+}
+
+class Generator {
+	private constructors = new Map<string, TLDefinition>();
+	private types = new Map<string, TLDefinition[]>();
+	private lines: string[] = [];
+
+	constructor(private schema: TLSchemaDefinition) {
+		for (const def of schema.constructors) {
+			this.constructors.set(def.name, def);
+
+			const list = this.types.get(def.type.name) || [];
+			list.push(def);
+			this.types.set(def.type.name, list);
+		}
+	}
+
+	private fail(message: string, def: TLDefinition): never {
+		throw new TypeError(`${message} in "${def.name}" at line ${def.line}`);
+	}
+
+	private tsType(ref: TLTypeRef, def: TLDefinition): string {
+		if (VECTOR_TYPES.has(ref.name)) {
+			if (!ref.param) this.fail('Vector without element type', def);
+			return `Array<${this.tsType(ref.param, def)}>`;
+		}
+
+		if (ref.name === 'true') return 'boolean';
+		if (PRIMITIVES[ref.name]) return PRIMITIVES[ref.name].ts;
+
+		if (ref.bare) {
+			if (!this.constructors.has(ref.name)) this.fail(`Unknown constructor ${ref.name}`, def);
+			return pascalCase(ref.name);
+		}
+
+		if (!this.types.has(ref.name)) this.fail(`Unknown type ${ref.name}`, def);
+
+		return `Type${pascalCase(ref.name)}`;
+	}
+
+	private encodeExpr(ref: TLTypeRef, value: string, def: TLDefinition): string {
+		if (VECTOR_TYPES.has(ref.name)) {
+			return `writeVector(writer, ${value}, (item) => ${this.encodeExpr(ref.param!, 'item', def)})`;
+		}
+
+		if (PRIMITIVES[ref.name]) return PRIMITIVES[ref.name].encode(value);
+
+		if (ref.bare) return `encode${pascalCase(ref.name)}(writer, ${value})`;
+
+		return `encodeType${pascalCase(ref.name)}(writer, ${value})`;
+	}
+
+	private decodeExpr(ref: TLTypeRef, def: TLDefinition): string {
+		if (VECTOR_TYPES.has(ref.name)) {
+			return `readVector(reader, () => ${this.decodeExpr(ref.param!, def)})`;
+		}
+
+		if (PRIMITIVES[ref.name]) return PRIMITIVES[ref.name].decode;
+
+		if (ref.bare) return `decode${pascalCase(ref.name)}(reader)`;
+
+		return `decodeType${pascalCase(ref.name)}(reader)`;
+	}
+
+	private emit(line = '') {
+		this.lines.push(line);
+	}
+
+	private emitInterface(def: TLDefinition) {
+		const name = pascalCase(def.name);
+
+		this.emit(`export interface ${name} {`);
+		this.emit(`\t_: '${def.name}';`);
+
+		for (const param of def.params) {
+			if (!param.type) continue;
+
+			const optional = param.flag ? '?' : '';
+
+			this.emit(`\t${param.name}${optional}: ${this.tsType(param.type, def)};`);
+		}
+
+		this.emit('}');
+		this.emit();
+	}
+
+	private flagCondition(param: TLParam) {
+		if (param.type!.name === 'true') {
+			return `!!value.${param.name}`;
+		}
+
+		return `value.${param.name} !== undefined`;
+	}
+
+	private emitEncode(def: TLDefinition) {
+		const name = pascalCase(def.name);
+
+		this.emit(`export function encode${name}(writer: BinaryWriter, value: ${name}) {`);
+
+		for (const param of def.params) {
+			if (!param.type) {
+				const bits = def.params
+					.filter((item) => item.flag && item.flag.field === param.name)
+					.map((item) => `(${this.flagCondition(item)} ? ${1 << item.flag!.bit} : 0)`);
+
+				this.emit(`\twriter.writeInt32(${bits.join(' | ') || '0'}, false);`);
+				continue;
+			}
+
+			if (param.type.name === 'true') continue;
+
+			const expr = this.encodeExpr(param.type, `value.${param.name}`, def);
+
+			if (param.flag) {
+				this.emit(`\tif (${this.flagCondition(param)}) ${expr};`);
+			} else {
+				this.emit(`\t${expr};`);
+			}
+		}
+
+		this.emit('}');
+		this.emit();
+	}
+
+	private emitDecode(def: TLDefinition) {
+		const name = pascalCase(def.name);
+
+		this.emit(`export function decode${name}(reader: BinaryReader): ${name} {`);
+		this.emit(`\tconst result = { _: '${def.name}' } as ${name};`);
+
+		for (const param of def.params) {
+			if (!param.type) {
+				this.emit(`\tconst flags_${param.name} = reader.readInt32(false);`);
+				continue;
+			}
+
+			const expr =
+				param.type.name === 'true' ? 'true' : this.decodeExpr(param.type, def);
+
+			if (param.flag) {
+				const mask = 1 << param.flag.bit;
+				this.emit(
+					`\tif (flags_${param.flag.field} & ${mask}) result.${param.name} = ${expr};`,
+				);
+			} else {
+				this.emit(`\tresult.${param.name} = ${expr};`);
+			}
+		}
+
+		this.emit('\treturn result;');
+		this.emit('}');
+		this.emit();
+	}
+
+	private emitBoxed(typeName: string, defs: TLDefinition[], title: string) {
+		const names = defs.map((def) => pascalCase(def.name));
+
+		this.emit(`export type ${typeName} = ${names.join(' | ') || 'never'};`);
+		this.emit();
+
+		this.emit(`export function encode${typeName}(writer: BinaryWriter, value: ${typeName}) {`);
+		this.emit('\tswitch (value._) {');
+
+		defs.forEach((def, idx) => {
+			this.emit(`\t\tcase '${def.name}':`);
+			this.emit(`\t\t\twriter.writeInt32(${hex(def.id)}, false);`);
+			this.emit(`\t\t\treturn encode${names[idx]}(writer, value);`);
+		});
+
+		this.emit('\t}');
+		this.emit();
+		this.emit(
+			`\tthrow new TypeError(\`Unknown constructor \${(value as any)._} of ${title}\`);`,
+		);
+		this.emit('}');
+		this.emit();
+
+		this.emit(`export function decode${typeName}(reader: BinaryReader): ${typeName} {`);
+		this.emit('\tconst id = reader.readInt32(false);');
+		this.emit();
+		this.emit('\tswitch (id) {');
+
+		defs.forEach((def, idx) => {
+			this.emit(`\t\tcase ${hex(def.id)}:`);
+			this.emit(`\t\t\treturn decode${names[idx]}(reader);`);
+		});
+
+		this.emit('\t}');
+		this.emit();
+		this.emit(
+			`\tthrow new Error(\`Unknown constructor id 0x\${id.toString(16)} of ${title}\`);`,
+		);
+		this.emit('}');
+		this.emit();
+	}
+
+	generate(options: TLGeneratorOptions) {
+		const importFrom = options.importFrom || '@andrew_l/tl-pack';
+
+		this.emit('// This file is generated by tl-gen, do not edit it manually.');
+		this.emit();
+		this.emit(`import type { BinaryReader, BinaryWriter } from '${importFrom}';`);
+		this.emit();
+		this.emit('export type Long = number | bigint;');
+		this.emit();
+		this.emit(
+			'function writeVector<T>(writer: BinaryWriter, value: T[], write: (item: T) => void) {',
+		);
+		this.emit('\twriter.writeLength(value.length);');
+		this.emit('\tfor (const item of value) write(item);');
+		this.emit('}');
+		this.emit();
+		this.emit('function readVector<T>(reader: BinaryReader, read: () => T): T[] {');
+		this.emit('\tconst count = reader.readLength();');
+		this.emit('\tconst result: T[] = [];');
+		this.emit('\tfor (let i = 0; i < count; i++) result.push(read());');
+		this.emit('\treturn result;');
+		this.emit('}');
+		this.emit();
+
+		const all = [...this.schema.constructors, ...this.schema.functions];
+
+		for (const def of all) {
+			this.emitInterface(def);
+			this.emitEncode(def);
+			this.emitDecode(def);
+		}
+
+		for (const [name, defs] of this.types) {
+			if (PRIMITIVES[name]) continue;
+			this.emitBoxed(`Type${pascalCase(name)}`, defs, `type ${name}`);
+		}
+
+		if (this.schema.functions.length) {
+			this.emitBoxed('TLFunction', this.schema.functions, 'functions');
+
+			this.emit('export interface TLFunctionResults {');
+
+			for (const def of this.schema.functions) {
+				this.emit(`\t'${def.name}': ${this.tsType(def.type, def)};`);
+			}
+
+			this.emit('}');
+			this.emit();
+		}
+
+		// drop trailing empty line
+		this.lines.pop();
+
+		return this.lines.join('\n') + '\n';
+	}
+}
+
+/**
+ * Generates TypeScript module with interfaces and encode/decode functions
+ * built on BinaryWriter/BinaryReader primitives.
+ */
+export function generateTypeScript(schema: TLSchemaDefinition, options: TLGeneratorOptions = {}) {
+	return new Generator(schema).generate(options);
+}
@@ -0,0 +1,296 @@
+export interface TLTypeRef {
+	name: string;
+	bare: boolean;
+	param?: TLTypeRef;
+}
+
+export interface TLParam {
+	name: string;
+	/**
+	 * Type of the param, `null` for a flags field (`flags:#`)
+	 */
+	type: TLTypeRef | null;
+	flag?: { field: string; bit: number };
+}
+
+export interface TLDefinition {
+	kind: 'constructor' | 'function';
+	name: string;
+	id: number;
+	params: TLParam[];
+	type: TLTypeRef;
+	line: number;
+}
+
+export interface TLSchemaDefinition {
+	constructors: TLDefinition[];
+	functions: TLDefinition[];
+}
+
+/**
+ * Definitions of these types are built in and skipped by the parser.
+ */
+const BUILTIN_TYPES = new Set([
+	'int',
+	'long',
+	'double',
+	'string',
+	'bytes',
+	'vector',
+	'int128',
+	'int256',
+]);
+
+const crcTable = new Int32Array(256);
+
+for (let n = 0; n < 256; n++) {
+	let c = n;
+
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+
+	crcTable[n] = c;
+}
+
+function crc32(value: string) {
+	const bytes = new TextEncoder().encode(value);
+
+	let crc = -1;
+
+	for (let i = 0; i < bytes.length; i++) {
+		crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	}
+
+	return (crc ^ -1) >>> 0;
+}
+
+function stripComments(source: string) {
+	// keep new lines, so line numbers stay the same
+	return source
+		.replace(/\/\*[\s\S]*?\*\//g, (comment) => comment.replace(/[^\n]/g, ' '))
+		.replace(/\/\/[^\n]*/g, '');
+}
+
+function parseTypeRef(value: string, line: number): TLTypeRef {
+	let bare = false;
+
+	if (value.startsWith('%')) {
+		bare = true;
+		value = value.slice(1);
+	}
+
+	// "Vector t" form of result type
+	const spaced = value.match(/^([\w.]+)\s+(\S+)$/);
+
+	if (spaced) {
+		value = `${spaced[1]}<${spaced[2]}>`;
+	}
+
+	const match = value.match(/^([\w.]+)(?:<(.+)>)?$/);
+
+	if (!match) {
+		throw new SyntaxError(`Invalid type "${value}" at line ${line}`);
+	}
+
+	const name = match[1];
+	const short = name.slice(name.lastIndexOf('.') + 1);
+
+	if (!bare && short[0] === short[0].toLowerCase() && !BUILTIN_TYPES.has(name)) {
+		bare = true;
+	}
+
+	const ref: TLTypeRef = { name, bare };
+
+	if (match[2]) {
+		ref.param = parseTypeRef(match[2], line);
+	}
+
+	return ref;
+}
+
+function parseParam(
+	token: string,
+	flags: Set<string>,
+	generics: Set<string>,
+	line: number,
+): TLParam {
+	const separator = token.indexOf(':');
+
+	if (separator < 1) {
+		throw new SyntaxError(`Invalid param "${token}" at line ${line}`);
+	}
+
+	const name = token.slice(0, separator);
+
+	let type = token.slice(separator + 1);
+
+	if (type === '#') {
+		flags.add(name);
+		return { name, type: null };
+	}
+
+	let flag: TLParam['flag'];
+
+	const conditional = type.match(/^([\w]+)\.(\d+)\?(.+)$/);
+
+	if (conditional) {
+		if (!flags.has(conditional[1])) {
+			throw new SyntaxError(`Unknown flags field "${conditional[1]}" at line ${line}`);
+		}
+
+		flag = { field: conditional[1], bit: +conditional[2] };
+		type = conditional[3];
+
+		if (flag.bit > 31) {
+			throw new SyntaxError(`Flag bit must be less than 32 at line ${line}`);
+		}
+	}
+
+	// generic param reference, e.g. !X
+	if (type.startsWith('!') || generics.has(type)) {
+		type = 'Object';
+	}
+
+	const param: TLParam = { name, type: parseTypeRef(type, line) };
+
+	if (flag) {
+		param.flag = flag;
+	}
+
+	return param;
+}
+
+function parseDefinition(
+	statement: string,
+	kind: TLDefinition['kind'],
+	line: number,
+): TLDefinition | undefined {
+	const equal = statement.lastIndexOf('=');
+
+	if (equal === -1) {
+		throw new SyntaxError(`Missing result type at line ${line}`);
+	}
+
+	const tokens = statement.slice(0, equal).trim().split(/\s+/);
+	const result = statement.slice(equal + 1).trim();
+	const head = tokens.shift()!.match(/^([\w.]+)(?:#([0-9a-fA-F]{1,8}))?$/);
+
+	if (!head) {
+		throw new SyntaxError(`Invalid definition name at line ${line}`);
+	}
+
+	const name = head[1];
+
+	if (BUILTIN_TYPES.has(name)) {
+		return;
+	}
+
+	const flags = new Set<string>();
+	const generics = new Set<string>();
+	const params: TLParam[] = [];
+
+	for (const token of tokens) {
+		// generic type declaration, e.g. {X:Type}
+		if (token.startsWith('{') && token.endsWith('}')) {
+			generics.add(token.slice(1, token.indexOf(':')));
+			continue;
+		}
+
+		params.push(parseParam(token, flags, generics, line));
+	}
+
+	let id: number;
+
+	if (head[2]) {
+		id = parseInt(head[2], 16) >>> 0;
+	} else {
+		const normalized = statement
+			.replace(/[{}<>]/g, ' ')
+			.replace(/\s+/g, ' ')
+			.trim();
+
+		id = crc32(normalized);
+	}
+
+	return {
+		kind,
+		name,
+		id,
+		params,
+		type: parseTypeRef(generics.has(result) ? 'Object' : result, line),
+		line,
+	};
+}
+
+/**
+ * Parses Telegram-style TL schema, e.g.
+ * `user#d23c81a3 id:int name:string = User;`
+ *
+ * Definitions without explicit id get crc32 of the normalized definition.
+ */
+export function parseTL(source: string): TLSchemaDefinition {
+	const text = stripComments(source);
+	const schema: TLSchemaDefinition = { constructors: [], functions: [] };
+
+	const whitespace = /\s*/y;
+
+	let kind: TLDefinition['kind'] = 'constructor';
+	let offset = 0;
+	let line = 1;
+
+	const advance = (end: number) => {
+		for (; offset < end; offset++) {
+			if (text.charCodeAt(offset) === 10) line++;
+		}
+	};
+
+	while (offset < text.length) {
+		whitespace.lastIndex = offset;
+		whitespace.exec(text);
+		advance(whitespace.lastIndex);
+
+		if (offset >= text.length) break;
+
+		if (text.startsWith('---', offset)) {
+			const end = text.indexOf('---', offset + 3);
+
+			if (end === -1) {
+				throw new SyntaxError(`Invalid section at line ${line}`);
+			}
+
+			const section = text.slice(offset + 3, end).trim();
+
+			if (section === 'functions') {
+				kind = 'function';
+			} else if (section === 'types') {
+				kind = 'constructor';
+			} else {
+				throw new SyntaxError(`Unknown section "${section}" at line ${line}`);
+			}
+
+			advance(end + 3);
+			continue;
+		}
+
+		const end = text.indexOf(';', offset);
+
+		if (end === -1) {
+			throw new SyntaxError(`Missing ";" at line ${line}`);
+		}
+
+		const definition = parseDefinition(text.slice(offset, end).trim(), kind, line);
+
+		advance(end + 1);
+
+		if (!definition) continue;
+
+		if (kind === 'function') {
+			schema.functions.push(definition);
+		} else {
+			schema.constructors.push(definition);
+		}
+	}
+
+	return schema;
+}
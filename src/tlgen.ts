@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { generateTypeScript } from './tlGenerator.js';
+import { parseTL } from './tlParser.js';
+
+const USAGE = `Usage: tl-gen <schema.tl> [-o output.ts] [--import module]
+
+Generates TypeScript interfaces with encode/decode functions from TL schema.
+
+Options:
+  -o, --output <file>  write generated module to the file instead of stdout
+  --import <module>    module to import BinaryWriter/BinaryReader from
+  -h, --help           show this message
+`;
+
+function main(args: string[]) {
+	let input: string | undefined;
+	let output: string | undefined;
+	let importFrom: string | undefined;
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		switch (arg) {
+			case '-o':
+			case '--output': {
+				output = args[++i];
+				break;
+			}
+
+			case '--import': {
+				importFrom = args[++i];
+				break;
+			}
+
+			case '-h':
+			case '--help': {
+				process.stdout.write(USAGE);
+				return 0;
+			}
+
+			default: {
+				if (input !== undefined || arg.startsWith('-')) {
+					throw new TypeError(`Unexpected argument ${arg}`);
+				}
+
+				input = arg;
+			}
+		}
+	}
+
+	if (!input) {
+		process.stderr.write(USAGE);
+		return 1;
+	}
+
+	const schema = parseTL(readFileSync(input, 'utf8'));
+	const code = generateTypeScript(schema, { importFrom });
+
+	if (output) {
+		writeFileSync(output, code);
+		console.info(
+			`Generated ${schema.constructors.length} constructors and ${schema.functions.length} functions into ${output}`,
+		);
+	} else {
+		process.stdout.write(code);
+	}
+
+	return 0;
+}
+
+try {
+	process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+	console.error((err as Error).message);
+	process.exitCode = 1;
+}
@@ -0,0 +1,481 @@
+#!/usr/bin/env node
+import { createReadStream, createWriteStream, readFileSync, writeFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import * as zlib from 'node:zlib';
+import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
+import { registerZlib } from './codecs.js';
+import { CORE_TYPES } from './constants.js';
+import { Dictionary } from './dictionary.js';
+import { trainDictionary } from './dictionaryTrainer.js';
+import { InspectNode, inspect, inspectNodes } from './inspect.js';
+import { decodeIterable, encodeIterable } from './iterable.js';
+import { binaryToJSON, jsonToBinary } from './json.js';
+
+// the CLI runs on NodeJs only, zlib codecs do not depend on its version
+registerZlib(zlib);
+
+const USAGE = `Usage: tlpack <command> [input] [options]
+
+Commands:
+  encode   encode JSON into tl-pack
+  decode   decode tl-pack into JSON
+  inspect  print annotated dump of tl-pack data
+  stats    compare size of JSON encoded as tl-pack with the JSON size
+  train    build a dictionary from a JSON array of samples or NDJSON (--stream)
+
+Reads the input file, or stdin when the input is omitted or "-".
+
+Options:
+  -o, --output <file>      write to the file instead of stdout
+  -d, --dictionary <file>  static dictionary, trained, a JSON array or a word per line
+  -z, --gzip               compress values encoded into at least --threshold bytes,
+                           when it saves space (encode, stats)
+  -t, --threshold <bytes>  minimum size of a compressed value, defaults to 256
+  -c, --codec <name>       compress by -z with deflate, gzip, brotli or lz4
+  -l, --level <number>     compression level of the codec
+  -s, --stream             NDJSON values as a dynamic vector (encode, decode, stats)
+  --pretty                 indent decoded JSON
+  -f, --fingerprint        prefix encoded data with the dictionary version and hash
+  -n, --max <number>       maximum count of trained dictionary entries
+  --json                   print inspect nodes or trained words as JSON
+  -h, --help               show this message
+`;
+
+const DEFAULT_COMPRESS_THRESHOLD = 256;
+
+const COMMANDS = new Set(['encode', 'decode', 'inspect', 'stats', 'train']);
+
+interface CliOptions {
+	command: string;
+	input?: string;
+	output?: string;
+	dictionary?: Dictionary;
+	fingerprint: boolean;
+	gzip: boolean;
+	threshold: number;
+	codec?: string;
+	level?: number;
+	max?: number;
+	stream: boolean;
+	pretty: boolean;
+	json: boolean;
+}
+
+function readDictionary(path: string): Dictionary {
+	const buffer = readFileSync(path);
+
+	if (buffer[0] === CORE_TYPES.Map) {
+		return Dictionary.deserialize(buffer);
+	}
+
+	const text = buffer.toString('utf8').trim();
+
+	if (!text.startsWith('[')) {
+		return new Dictionary(text.split(/\r?\n/).filter(Boolean));
+	}
+
+	const words = JSON.parse(text);
+
+	if (!Array.isArray(words) || words.some((word) => typeof word !== 'string')) {
+		throw new TypeError(`Dictionary ${path} must be an array of strings`);
+	}
+
+	return new Dictionary(words);
+}
+
+function parseArgs(args: string[]): CliOptions | undefined {
+	const options: CliOptions = {
+		command: args[0],
+		gzip: false,
+		threshold: DEFAULT_COMPRESS_THRESHOLD,
+		fingerprint: false,
+		stream: false,
+		pretty: false,
+		json: false,
+	};
+
+	if (!COMMANDS.has(options.command)) {
+		return;
+	}
+
+	for (let i = 1; i < args.length; i++) {
+		const arg = args[i];
+
+		switch (arg) {
+			case '-o':
+			case '--output': {
+				options.output = args[++i];
+				break;
+			}
+
+			case '-d':
+			case '--dictionary': {
+				options.dictionary = readDictionary(args[++i]);
+				break;
+			}
+
+			case '-z':
+			case '--gzip': {
+				options.gzip = true;
+				break;
+			}
+
+			case '-t':
+			case '--threshold': {
+				options.threshold = Number(args[++i]);
+
+				if (!Number.isInteger(options.threshold) || options.threshold < 0) {
+					throw new TypeError(`Invalid threshold ${args[i]}`);
+				}
+
+				break;
+			}
+
+			case '-c':
+			case '--codec': {
+				options.codec = args[++i];
+				break;
+			}
+
+			case '-l':
+			case '--level': {
+				options.level = Number(args[++i]);
+
+				if (!Number.isInteger(options.level)) {
+					throw new TypeError(`Invalid level ${args[i]}`);
+				}
+
+				break;
+			}
+
+			case '-n':
+			case '--max': {
+				options.max = Number(args[++i]);
+
+				if (!Number.isInteger(options.max) || options.max < 0) {
+					throw new TypeError(`Invalid max ${args[i]}`);
+				}
+
+				break;
+			}
+
+			case '-f':
+			case '--fingerprint': {
+				options.fingerprint = true;
+				break;
+			}
+
+			case '-s':
+			case '--stream': {
+				options.stream = true;
+				break;
+			}
+
+			case '--pretty': {
+				options.pretty = true;
+				break;
+			}
+
+			case '--json': {
+				options.json = true;
+				break;
+			}
+
+			default: {
+				if (options.input !== undefined || (arg.startsWith('-') && arg !== '-')) {
+					throw new TypeError(`Unexpected argument ${arg}`);
+				}
+
+				options.input = arg;
+			}
+		}
+	}
+
+	return options;
+}
+
+/**
+ * Compression of the CLI is adaptive, a codec alone enables it as well.
+ */
+function writerOptionsOf(options: CliOptions): BinaryWriterOptions {
+	const compress = options.gzip || !!options.codec;
+
+	return {
+		dictionary: options.dictionary,
+		fingerprint: options.fingerprint,
+		codec: options.codec,
+		compressionLevel: options.level,
+		compressThreshold: compress ? options.threshold : undefined,
+	};
+}
+
+function inputStream(options: CliOptions): Readable {
+	const { input } = options;
+	return input && input !== '-' ? createReadStream(input) : process.stdin;
+}
+
+function outputStream(options: CliOptions): NodeJS.WritableStream {
+	return options.output ? createWriteStream(options.output) : process.stdout;
+}
+
+async function readInput(options: CliOptions) {
+	const { input } = options;
+
+	if (input && input !== '-') {
+		return readFileSync(input);
+	}
+
+	const chunks: Buffer[] = [];
+
+	for await (const chunk of process.stdin) {
+		chunks.push(chunk);
+	}
+
+	return Buffer.concat(chunks);
+}
+
+function writeOutput(options: CliOptions, data: string | Uint8Array) {
+	if (options.output) {
+		writeFileSync(options.output, data);
+	} else {
+		process.stdout.write(data);
+	}
+}
+
+async function* readLines(stream: Readable) {
+	for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+		if (line.trim()) yield line;
+	}
+}
+
+async function* parseStream(stream: Readable) {
+	for await (const line of readLines(stream)) {
+		yield JSON.parse(line);
+	}
+}
+
+function parseLines(text: string) {
+	return text
+		.split(/\r?\n/)
+		.filter((line) => line.trim())
+		.map((line) => JSON.parse(line));
+}
+
+/**
+ * Converts decoded values the same way as `binaryToJSON` does,
+ * the raw value is taken before `toJSON` of Buffer is applied.
+ */
+function jsonReplacer(this: any, key: string, value: any) {
+	const raw = this[key];
+
+	if (typeof raw === 'bigint') {
+		return String(raw);
+	}
+
+	if (raw instanceof Map || raw instanceof Set) {
+		return Array.from(raw);
+	}
+
+	if (raw instanceof ArrayBuffer) {
+		return Buffer.from(raw).toString('base64');
+	}
+
+	if (ArrayBuffer.isView(raw)) {
+		return Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength).toString('base64');
+	}
+
+	return value;
+}
+
+async function encode(options: CliOptions) {
+	const writerOptions = writerOptionsOf(options);
+
+	if (!options.stream) {
+		const text = (await readInput(options)).toString('utf8');
+		writeOutput(options, jsonToBinary(text, writerOptions));
+		return;
+	}
+
+	// null lines are encoded as elements, object mode streams would end on them
+	await pipeline(
+		encodeIterable(parseStream(inputStream(options)), writerOptions),
+		outputStream(options),
+	);
+}
+
+async function decode(options: CliOptions) {
+	const readerOptions = { dictionary: options.dictionary };
+
+	if (!options.stream) {
+		const json = binaryToJSON(await readInput(options), readerOptions);
+
+		writeOutput(options, (options.pretty ? JSON.stringify(JSON.parse(json), null, 2) : json) + '\n');
+		return;
+	}
+
+	// null elements are decoded as lines, TLDecode rejects them
+	await pipeline(
+		inputStream(options),
+		async function* (source: AsyncIterable<Uint8Array>) {
+			for await (const value of decodeIterable(source, readerOptions)) {
+				yield JSON.stringify(value, jsonReplacer) + '\n';
+			}
+		},
+		outputStream(options),
+	);
+}
+
+async function inspectCommand(options: CliOptions) {
+	const buffer = await readInput(options);
+	const readerOptions = { dictionary: options.dictionary };
+
+	if (options.json) {
+		writeOutput(options, JSON.stringify(inspectNodes(buffer, readerOptions), null, 2) + '\n');
+	} else {
+		writeOutput(options, inspect(buffer, readerOptions) + '\n');
+	}
+}
+
+/**
+ * Sums bytes of nodes by type, bytes of nested nodes are not included
+ * into the parent. Nodes inside GZIP and Compressed are counted as the compressed node.
+ */
+function breakdown(nodes: InspectNode[]) {
+	const result = new Map<string, { count: number; bytes: number }>();
+
+	let gzipDepth = Infinity;
+
+	for (let i = 0; i < nodes.length; i++) {
+		const node = nodes[i];
+
+		if (node.depth > gzipDepth) continue;
+
+		const compressed = node.type === 'GZIP' || node.type === 'Compressed';
+
+		gzipDepth = compressed ? node.depth : Infinity;
+
+		let bytes = node.size;
+
+		if (!compressed) {
+			for (let j = i + 1; j < nodes.length && nodes[j].depth > node.depth; j++) {
+				if (nodes[j].depth === node.depth + 1) bytes -= nodes[j].size;
+			}
+		}
+
+		const entry = result.get(node.type) || { count: 0, bytes: 0 };
+
+		entry.count++;
+		entry.bytes += bytes;
+		result.set(node.type, entry);
+	}
+
+	return result;
+}
+
+function percent(value: number, total: number) {
+	return total ? ((value / total) * 100).toFixed(1) + '%' : '-';
+}
+
+async function stats(options: CliOptions) {
+	const text = (await readInput(options)).toString('utf8');
+	const values = options.stream ? parseLines(text) : [JSON.parse(text)];
+	const writer = new BinaryWriter(writerOptionsOf(options));
+	const chunks: Uint8Array[] = [];
+
+	let jsonSize = 0;
+
+	for (const value of values) {
+		jsonSize += Buffer.byteLength(JSON.stringify(value)) + (options.stream ? 1 : 0);
+		chunks.push(Uint8Array.from(writer.encode(value)));
+	}
+
+	if (options.stream) {
+		chunks.unshift(new Uint8Array([CORE_TYPES.VectorDynamic]));
+		chunks.push(new Uint8Array([CORE_TYPES.None]));
+	}
+
+	const buffer = Buffer.concat(chunks);
+	const nodes = inspectNodes(buffer, { dictionary: options.dictionary });
+	const rows = Array.from(breakdown(nodes)).sort((a, b) => b[1].bytes - a[1].bytes);
+
+	const lines = [
+		`JSON:    ${jsonSize} bytes`,
+		`tl-pack: ${buffer.length} bytes (${percent(buffer.length, jsonSize)} of JSON)`,
+		'',
+		`${'Type'.padEnd(14)}${'Count'.padStart(8)}${'Bytes'.padStart(10)}${'Share'.padStart(8)}`,
+	];
+
+	for (const [type, { count, bytes }] of rows) {
+		lines.push(
+			`${type.padEnd(14)}${String(count).padStart(8)}${String(bytes).padStart(10)}${percent(
+				bytes,
+				buffer.length,
+			).padStart(8)}`,
+		);
+	}
+
+	writeOutput(options, lines.join('\n') + '\n');
+}
+
+async function train(options: CliOptions) {
+	const text = (await readInput(options)).toString('utf8');
+	const samples = options.stream ? parseLines(text) : JSON.parse(text);
+
+	if (!Array.isArray(samples)) {
+		throw new TypeError('Samples must be a JSON array');
+	}
+
+	const dictionary = trainDictionary(samples, { maxEntries: options.max });
+
+	if (options.json) {
+		writeOutput(options, JSON.stringify(dictionary.values(), null, 2) + '\n');
+	} else {
+		writeOutput(options, dictionary.serialize());
+	}
+}
+
+async function main(args: string[]) {
+	if (args.includes('-h') || args.includes('--help')) {
+		process.stdout.write(USAGE);
+		return 0;
+	}
+
+	const options = parseArgs(args);
+
+	if (!options) {
+		process.stderr.write(USAGE);
+		return 1;
+	}
+
+	switch (options.command) {
+		case 'encode':
+			await encode(options);
+			break;
+		case 'decode':
+			await decode(options);
+			break;
+		case 'inspect':
+			await inspectCommand(options);
+			break;
+		case 'stats':
+			await stats(options);
+			break;
+		case 'train':
+			await train(options);
+			break;
+	}
+
+	return 0;
+}
+
+main(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code;
+	},
+	(err) => {
+		console.error((err as Error).message);
+		process.exitCode = 1;
+	},
+);
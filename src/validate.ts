@@ -0,0 +1,38 @@
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { TLPackError } from './errors.js';
+
+export type ValidationResult =
+	| { valid: true }
+	| { valid: false; offset: number; reason: string; error: TLPackError };
+
+/**
+ * Checks the buffer contains exactly one well-formed object
+ * without decoding it. Extension tokens are checked by decoding
+ * them with the registered extension.
+ */
+export function validate(
+	buffer: Buffer | Uint8Array,
+	options?: BinaryReaderOptions,
+): ValidationResult {
+	const reader = new BinaryReader(buffer, options);
+
+	try {
+		reader.skipObject();
+
+		if (reader.offset < reader.length) {
+			throw new TLPackError(
+				`Unexpected ${reader.length - reader.offset} bytes after object`,
+				reader.offset,
+			);
+		}
+	} catch (err) {
+		const error =
+			err instanceof TLPackError
+				? err
+				: new TLPackError((err as Error)?.message || String(err), reader.offset);
+
+		return { valid: false, offset: error.offset, reason: error.reason, error };
+	}
+
+	return { valid: true };
+}
@@ -0,0 +1,89 @@
+import type { QueuingStrategy } from 'node:stream/web';
+import { BinaryReader, BinaryReaderOptions } from './BinaryReader.js';
+import { BinaryWriter, BinaryWriterOptions } from './BinaryWriter.js';
+import { CORE_TYPES } from './constants.js';
+import { StreamParser } from './streamParser.js';
+
+// Web Streams are globals of browsers, Deno, workers and NodeJs,
+// only types are taken from node.
+declare const TransformStream: typeof import('node:stream/web').TransformStream;
+
+export interface TLEncoderStreamOptions extends BinaryWriterOptions {
+	writableStrategy?: QueuingStrategy<any>;
+	readableStrategy?: QueuingStrategy<Uint8Array>;
+}
+
+export interface TLDecoderStreamOptions extends BinaryReaderOptions {
+	writableStrategy?: QueuingStrategy<Uint8Array>;
+	readableStrategy?: QueuingStrategy<any>;
+}
+
+function toUint8Array(value: Uint8Array) {
+	return new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+}
+
+export class TLEncoderStream extends TransformStream<any, Uint8Array> {
+	writer: BinaryWriter;
+	private state: { count: number };
+
+	constructor(options?: TLEncoderStreamOptions) {
+		const writer = new BinaryWriter(options);
+		const state = { count: 0 };
+
+		super(
+			{
+				start(controller) {
+					// a byte about dynamic vector starting
+					controller.enqueue(new Uint8Array([CORE_TYPES.VectorDynamic]));
+				},
+				transform(chunk, controller) {
+					controller.enqueue(toUint8Array(writer.encode(chunk)));
+					state.count++;
+				},
+				flush(controller) {
+					// a byte about dynamic vector ending
+					controller.enqueue(new Uint8Array([CORE_TYPES.None]));
+				},
+			},
+			options && options.writableStrategy,
+			options && options.readableStrategy,
+		);
+
+		this.writer = writer;
+		this.state = state;
+	}
+
+	get count() {
+		return this.state.count;
+	}
+}
+
+export class TLDecoderStream extends TransformStream<Uint8Array, any> {
+	reader: BinaryReader;
+
+	constructor(options?: TLDecoderStreamOptions) {
+		const reader = new BinaryReader(new Uint8Array(0), options);
+		const parser = new StreamParser(reader);
+
+		super(
+			{
+				transform(chunk, controller) {
+					parser.write(chunk);
+
+					let result;
+
+					while (!(result = parser.read()).done) {
+						controller.enqueue(result.value);
+					}
+				},
+				flush() {
+					parser.end();
+				},
+			},
+			options && options.writableStrategy,
+			options && options.readableStrategy,
+		);
+
+		this.reader = reader;
+	}
+}
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	IncompleteDataError,
+	LimitExceededError,
+	inspectNodes,
+} from '../dist/index.js';
+
+// deterministic text which does not compress
+function noise(length) {
+	let seed = 1;
+	let result = '';
+
+	for (let i = 0; i < length; i++) {
+		seed = (seed * 16807) % 2147483647;
+		result += String.fromCharCode(33 + (seed % 90));
+	}
+
+	return result;
+}
+
+const VALUE = {
+	short: 'hi',
+	long: 'abc '.repeat(200),
+	list: Array.from({ length: 100 }, (_, id) => ({ id, name: 'user' })),
+	noise: noise(300),
+};
+
+function compressedKeys(buffer) {
+	return inspectNodes(buffer)
+		.filter((node) => node.type === 'GZIP' || node.type === 'Compressed')
+		.map((node) => node.key);
+}
+
+describe('adaptive compression', () => {
+	it('compresses values over the threshold which save space', () => {
+		const buffer = new BinaryWriter({ compressThreshold: 256 }).encode(VALUE);
+
+		assert.ok(buffer.length < new BinaryWriter().encode(VALUE).length / 2);
+		assert.deepEqual(compressedKeys(buffer), ['long', 'list']);
+		assert.deepEqual(new BinaryReader(buffer).readObject(), VALUE);
+	});
+
+	it('uses the codec and ratio options', () => {
+		const lz4 = new BinaryWriter({ compressThreshold: 256, codec: 'lz4' }).encode(VALUE);
+
+		assert.ok(inspectNodes(lz4).some((node) => node.codec === 'lz4'));
+		assert.deepEqual(new BinaryReader(lz4).readObject(), VALUE);
+
+		const strict = new BinaryWriter({ compressThreshold: 256, compressRatio: 0.01 });
+
+		assert.deepEqual(compressedKeys(strict.encode(VALUE)), []);
+
+		const high = new BinaryWriter({ compressThreshold: 10000 });
+
+		assert.deepEqual(compressedKeys(high.encode(VALUE)), []);
+	});
+
+	it('rejects truncated and oversized compressed values', () => {
+		const buffer = new BinaryWriter({ compressThreshold: 256 }).encode({ long: VALUE.long });
+
+		assert.throws(
+			() => new BinaryReader(buffer, { maxInflatedSize: 100 }).readObject(),
+			(err) => err instanceof LimitExceededError && err.limit === 'maxInflatedSize',
+		);
+
+		assert.throws(
+			() => new BinaryReader(buffer.subarray(0, buffer.length - 4)).readObject(),
+			IncompleteDataError,
+		);
+	});
+});
@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import * as zlib from 'node:zlib';
+import {
+	BinaryReader,
+	BinaryWriter,
+	CORE_TYPES,
+	LimitExceededError,
+	TLPackError,
+	getCodec,
+	registerCodec,
+	registerZlib,
+} from '../dist/index.js';
+
+const TEXT = 'compressible text '.repeat(200);
+
+describe('codecs', () => {
+	it('round-trips values compressed by every codec', () => {
+		const value = { text: TEXT, bytes: new TextEncoder().encode(TEXT) };
+
+		for (const name of ['deflate', 'gzip', 'brotli', 'lz4']) {
+			const codec = getCodec(name);
+			const buffer = new BinaryWriter({ codec: name }).encode(TEXT);
+
+			assert.ok(buffer.length < TEXT.length / 4, name);
+
+			if (name === 'deflate') {
+				assert.equal(buffer[0], CORE_TYPES.GZIP);
+			} else {
+				assert.deepEqual([...buffer.subarray(0, 2)], [CORE_TYPES.Compressed, codec.id]);
+			}
+
+			assert.equal(new BinaryReader(buffer).readObject(), TEXT, name);
+
+			const map = new BinaryWriter({ codec: name }).encode(value);
+
+			assert.deepEqual(new BinaryReader(map).readObject(), value, name);
+		}
+	});
+
+	it('decodes payloads of registered codecs', () => {
+		const reverse = (data) => data.slice().reverse();
+
+		registerCodec({ id: 200, name: 'reverse', compress: reverse, decompress: reverse });
+
+		const buffer = new BinaryWriter({ codec: 'reverse' }).encode(TEXT);
+
+		assert.deepEqual([...buffer.subarray(0, 2)], [CORE_TYPES.Compressed, 200]);
+		assert.equal(new BinaryReader(buffer).readObject(), TEXT);
+	});
+
+	it('uses registered zlib for gzip and brotli', () => {
+		const calls = [];
+
+		registerZlib({
+			...zlib,
+			brotliCompressSync(...args) {
+				calls.push('brotli');
+				return zlib.brotliCompressSync(...args);
+			},
+			gzipSync(...args) {
+				calls.push('gzip');
+				return zlib.gzipSync(...args);
+			},
+		});
+
+		for (const name of ['brotli', 'gzip']) {
+			const buffer = new BinaryWriter({ codec: name }).encode(TEXT);
+
+			assert.equal(new BinaryReader(buffer).readObject(), TEXT);
+		}
+
+		assert.deepEqual(calls, ['brotli', 'gzip']);
+
+		registerZlib(zlib);
+	});
+
+	it('limits inflated size of every codec', () => {
+		for (const name of ['deflate', 'gzip', 'brotli', 'lz4']) {
+			const buffer = new BinaryWriter({ codec: name }).encode(TEXT);
+
+			assert.throws(
+				() => new BinaryReader(buffer, { maxInflatedSize: 100 }).readObject(),
+				(err) => err instanceof LimitExceededError && err.limit === 'maxInflatedSize',
+				name,
+			);
+		}
+	});
+
+	it('rejects unknown and duplicate codecs', () => {
+		const identity = (data) => data;
+
+		assert.throws(
+			() => registerCodec({ id: 1, name: 'other', compress: identity, decompress: identity }),
+			{ name: 'TypeError', message: 'Duplicate codec other = 1' },
+		);
+
+		assert.throws(
+			() => registerCodec({ id: 256, name: 'wide', compress: identity, decompress: identity }),
+			TypeError,
+		);
+
+		assert.throws(() => new BinaryWriter({ codec: 'missing' }), {
+			name: 'TypeError',
+			message: 'Unknown codec missing',
+		});
+
+		assert.throws(
+			() => new BinaryReader(new Uint8Array([CORE_TYPES.Compressed, 99, 1, 0])).readObject(),
+			(err) => err instanceof TLPackError && err.reason === 'Unknown codec = 99',
+		);
+	});
+});
@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	IncompleteDataError,
+	LimitExceededError,
+} from '../dist/index.js';
+
+describe('ES Map and Set', () => {
+	it('round-trips Map with keys of any type and Set', () => {
+		const value = {
+			map: new Map([
+				[1, 'one'],
+				['two', 2],
+				[true, null],
+			]),
+			set: new Set([1, 'a', false]),
+		};
+
+		const result = new BinaryReader(new BinaryWriter().encode(value)).readObject();
+
+		assert.ok(result.map instanceof Map);
+		assert.ok(result.set instanceof Set);
+		assert.deepEqual(result, value);
+	});
+
+	it('throws on truncated Map', () => {
+		const buffer = new BinaryWriter().encode(new Map([['key', 'value']]));
+
+		assert.throws(
+			() => new BinaryReader(buffer.subarray(0, buffer.length - 2)).readObject(),
+			IncompleteDataError,
+		);
+	});
+
+	it('limits count of Map entries', () => {
+		const buffer = new BinaryWriter().encode(
+			new Map([
+				[1, 1],
+				[2, 2],
+			]),
+		);
+
+		assert.throws(
+			() => new BinaryReader(buffer, { maxMapKeys: 1 }).readObject(),
+			(err) => err instanceof LimitExceededError && err.limit === 'maxMapKeys',
+		);
+	});
+});
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	TLPackError,
+	Dictionary,
+	createDictionary,
+	trainDictionary,
+} from '../dist/index.js';
+
+const SAMPLES = Array.from({ length: 20 }, (_, id) => ({
+	id,
+	username: `user${id}`,
+	status: id % 2 ? 'active' : 'banned',
+	profile: { firstName: 'Name', lastName: 'Surname' },
+}));
+
+describe('dictionary training', () => {
+	it('ranks words contained in samples', () => {
+		const dictionary = trainDictionary(SAMPLES);
+		const values = dictionary.values();
+
+		for (const word of ['username', 'status', 'firstName', 'active', 'banned']) {
+			assert.ok(values.includes(word), word);
+		}
+
+		// a unique value is not worth a dictionary entry
+		assert.ok(!values.includes('user1'));
+		assert.equal(trainDictionary(SAMPLES, { maxEntries: 2 }).size, 2);
+		assert.equal(trainDictionary(SAMPLES, { minSamples: 100 }).size, 0);
+	});
+
+	it('encodes samples smaller with the trained dictionary', () => {
+		const dictionary = trainDictionary(SAMPLES);
+		const sample = SAMPLES[3];
+		const buffer = new BinaryWriter({ dictionary }).encode(sample);
+
+		assert.ok(buffer.length < new BinaryWriter().encode(sample).length / 2);
+		assert.deepEqual(new BinaryReader(buffer, { dictionary }).readObject(), sample);
+	});
+
+	it('round-trips serialized dictionaries', () => {
+		const dictionary = trainDictionary(SAMPLES);
+
+		dictionary.version = 3;
+
+		const restored = Dictionary.deserialize(dictionary.serialize());
+
+		assert.deepEqual(restored.values(), dictionary.values());
+		assert.ok(restored instanceof Dictionary);
+		assert.equal(restored.version, 3);
+		assert.equal(restored.fingerprint, dictionary.fingerprint);
+
+		const buffer = new BinaryWriter({ dictionary }).encode(SAMPLES[0]);
+
+		assert.deepEqual(new BinaryReader(buffer, { dictionary: restored }).readObject(), SAMPLES[0]);
+	});
+
+	it('rejects invalid serialized dictionaries', () => {
+		const invalid = [
+			new BinaryWriter().encode(['a', 'b']),
+			new BinaryWriter().encode({ version: 1, values: ['a', 2] }),
+			new BinaryWriter().encode({ values: ['a'] }),
+			new Uint8Array([250]),
+		];
+
+		for (const buffer of invalid) {
+			assert.throws(() => Dictionary.deserialize(buffer), TLPackError);
+		}
+
+		assert.equal(Dictionary.deserialize(createDictionary().serialize()).size, 0);
+	});
+});
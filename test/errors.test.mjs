@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	IncompleteDataError,
+	InvalidConstructorError,
+	TLPackError,
+	UnsupportedTypeError,
+} from '../dist/index.js';
+
+describe('errors', () => {
+	it('decodes data which was not corrupted', () => {
+		const value = { users: [1, { x: 2 }] };
+		const buffer = new BinaryWriter().encode(value);
+
+		assert.deepEqual(new BinaryReader(buffer).readObject(), value);
+	});
+
+	it('reports the path and offset of unsupported values', () => {
+		const value = { users: [{ name: 'a' }, { name: () => 1 }] };
+
+		assert.throws(
+			() => new BinaryWriter().encode(value),
+			(err) =>
+				err instanceof UnsupportedTypeError &&
+				err instanceof TLPackError &&
+				err.offset > 0 &&
+				err.path.join() === 'users,1,name' &&
+				err.message.endsWith('path = users[1].name'),
+		);
+	});
+
+	it('reports the path, offset and constructor of corrupted data', () => {
+		const buffer = Uint8Array.from(new BinaryWriter().encode({ users: [1, { x: 2 }] }));
+		// constructor of the value 2
+		const offset = buffer.length - 4;
+
+		buffer[offset] = 250;
+
+		assert.throws(
+			() => new BinaryReader(buffer).readObject(),
+			(err) =>
+				err instanceof InvalidConstructorError &&
+				err.offset === offset &&
+				err.constructorId === 250 &&
+				err.path.join() === 'users,1,x',
+		);
+	});
+
+	it('reports missing bytes of truncated data', () => {
+		const buffer = new BinaryWriter().encode({ name: 'Andrew' });
+
+		assert.throws(
+			() => new BinaryReader(buffer.subarray(0, buffer.length - 4)).readObject(),
+			(err) =>
+				err instanceof IncompleteDataError &&
+				err.incomplete === true &&
+				err.missing > 0 &&
+				err.path.join() === 'name',
+		);
+	});
+});
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, createExtension } from '../dist/index.js';
+
+class Money {
+	constructor(amount, currency) {
+		this.amount = amount;
+		this.currency = currency;
+	}
+}
+
+class Color {
+	constructor(rgb) {
+		this.rgb = rgb;
+	}
+}
+
+class Legacy {
+	constructor(value) {
+		this.value = value;
+	}
+}
+
+const money = createExtension(40, {
+	encode(value) {
+		this.writeInt32(value.amount);
+		this.writeObject(value.currency);
+	},
+	decode() {
+		return new Money(this.readInt32(), this.readObject());
+	},
+	Class: Money,
+});
+
+const color = createExtension(41, {
+	encode(value) {
+		this.writeInt32(value.rgb, false);
+	},
+	decode() {
+		return new Color(this.readInt32(false));
+	},
+	test: (value) => value instanceof Color,
+});
+
+const legacy = createExtension(42, {
+	encode(value) {
+		if (value instanceof Legacy) this.writeObject(value.value);
+	},
+	decode() {
+		return new Legacy(this.readObject());
+	},
+});
+
+const extensions = [money, color, legacy];
+
+describe('extension dispatch', () => {
+	it('dispatches by Class, predicate and trial encoding', () => {
+		const value = [new Money(100, 'USD'), new Color(0xff0000), new Legacy('old')];
+		const buffer = new BinaryWriter({ extensions }).encode(value);
+		const result = new BinaryReader(buffer, { extensions }).readObject();
+
+		assert.deepEqual(result, value);
+		assert.ok(result[0] instanceof Money);
+		assert.ok(result[1] instanceof Color);
+		assert.ok(result[2] instanceof Legacy);
+	});
+
+	it('does not call encoders of other extensions', () => {
+		let calls = 0;
+
+		const counted = createExtension(43, {
+			encode() {
+				calls++;
+			},
+			decode() {},
+		});
+
+		new BinaryWriter({ extensions: [counted, ...extensions] }).encode([
+			new Money(1, 'EUR'),
+			new Color(1),
+		]);
+
+		assert.equal(calls, 0);
+	});
+
+	it('rolls back a failed encoder', () => {
+		const failing = createExtension(44, {
+			encode(value) {
+				this.writeObject('partial');
+				throw new Error(`Failed to encode ${value.value}`);
+			},
+			decode() {},
+			test: (value) => value instanceof Legacy,
+		});
+
+		const writer = new BinaryWriter({ extensions: [failing] });
+
+		assert.throws(() => writer.encode({ key: new Legacy(1) }), {
+			message: 'Failed to encode 1',
+		});
+
+		const buffer = writer.encode({ key: 'partial' });
+
+		assert.deepEqual(buffer, new BinaryWriter().encode({ key: 'partial' }));
+		assert.deepEqual(new BinaryReader(buffer).readObject(), { key: 'partial' });
+	});
+});
@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	CORE_TYPES,
+	InvalidConstructorError,
+	createExtension,
+} from '../dist/index.js';
+
+function tagExtension(token) {
+	class Tag {
+		constructor(name) {
+			this.name = name;
+		}
+	}
+
+	const ext = createExtension(token, {
+		encode(value) {
+			this.writeString(value.name);
+		},
+		decode() {
+			return new Tag(this.readString());
+		},
+		Class: Tag,
+	});
+
+	return { Tag, ext };
+}
+
+describe('extension tokens', () => {
+	it('round-trips extensions of 8 and 16 bit tokens', () => {
+		const tags = [35, 254, 255, 300, 65535].map(tagExtension);
+		const extensions = tags.map(({ ext }) => ext);
+		const value = tags.map(({ Tag }, i) => new Tag(`tag ${i}`));
+
+		const buffer = new BinaryWriter({ extensions }).encode(value);
+		const result = new BinaryReader(buffer, { extensions }).readObject();
+
+		assert.deepEqual(result, value);
+		result.forEach((item, i) => assert.ok(item instanceof tags[i].Tag));
+	});
+
+	it('writes tokens above 254 after the Extension core type', () => {
+		const { Tag, ext } = tagExtension(300);
+		const buffer = new BinaryWriter({ extensions: [ext] }).encode(new Tag('x'));
+
+		assert.deepEqual([...buffer.subarray(0, 3)], [CORE_TYPES.Extension, 300 & 0xff, 300 >> 8]);
+	});
+
+	it('rejects reserved, invalid and unknown tokens', () => {
+		for (const token of [0, 34, 65536, 1.5]) {
+			assert.throws(() => tagExtension(token), TypeError, String(token));
+		}
+
+		const { Tag, ext } = tagExtension(300);
+		const buffer = new BinaryWriter({ extensions: [ext] }).encode([new Tag('x')]);
+
+		assert.throws(
+			() => new BinaryReader(buffer).readObject(),
+			(err) =>
+				err instanceof InvalidConstructorError &&
+				err.reason === 'Unknown extension token = 300' &&
+				err.path.join() === '0',
+		);
+
+		assert.throws(() => new BinaryReader(buffer, { extensions: [ext, ext] }), {
+			name: 'TypeError',
+			message: 'Duplicate extension token = 300',
+		});
+	});
+});
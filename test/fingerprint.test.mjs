@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	CORE_TYPES,
+	DictionaryMismatchError,
+	LazyMap,
+	createDictionary,
+} from '../dist/index.js';
+
+const v1 = createDictionary(['id', 'name'], 1);
+const v2 = createDictionary(['name', 'id', 'email'], 2);
+const VALUE = { id: 1, name: 'Andrew', email: 'andrew@example.com' };
+
+function encode(dictionary, value = VALUE) {
+	return new BinaryWriter({ dictionary, fingerprint: true }).encode(value);
+}
+
+describe('dictionary fingerprint', () => {
+	it('decodes payloads of every registered dictionary version', () => {
+		const reader = new BinaryReader(new Uint8Array(0), { dictionary: v1, dictionaries: [v1, v2] });
+		const first = encode(v1);
+
+		assert.equal(first[0], CORE_TYPES.Header);
+		assert.deepEqual(reader.decode(first), VALUE);
+		assert.deepEqual(reader.decode(encode(v2)), VALUE);
+
+		// payloads without header use the reader dictionary
+		const plain = new BinaryWriter({ dictionary: v1 }).encode(VALUE);
+
+		assert.deepEqual(reader.decode(plain), VALUE);
+	});
+
+	it('decodes lazily payloads with header', () => {
+		const buffer = encode(v2, { user: VALUE });
+		const reader = new BinaryReader(buffer, { dictionary: v1, dictionaries: [v2] });
+		const view = reader.decodeLazy(buffer);
+
+		assert.ok(view instanceof LazyMap);
+		assert.ok(view.get('user') instanceof LazyMap);
+		assert.deepEqual(view.toObject(), { user: VALUE });
+
+		const plain = new BinaryWriter({ dictionary: v1 }).encode(VALUE);
+
+		assert.deepEqual(reader.decodeLazy(plain).toObject(), VALUE);
+	});
+
+	it('rejects payloads of a different dictionary', () => {
+		const changed = createDictionary(['id', 'title'], 1);
+
+		assert.throws(
+			() => new BinaryReader(encode(changed), { dictionary: v1 }).readObject(),
+			(err) =>
+				err instanceof DictionaryMismatchError &&
+				err.version === 1 &&
+				err.hash === changed.fingerprint &&
+				err.offset === 0,
+		);
+
+		assert.throws(
+			() => new BinaryReader(encode(v2), { dictionary: v1 }).readObject(),
+			(err) => err instanceof DictionaryMismatchError && err.version === 2,
+		);
+
+		assert.throws(() => new BinaryReader(new Uint8Array(0), { dictionaries: [v1, v1] }), {
+			name: 'TypeError',
+			message: 'Duplicate dictionary version = 1',
+		});
+	});
+});
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it } from 'node:test';
+import {
+	FrameDecoder,
+	FrameEncoder,
+	IncompleteDataError,
+	LimitExceededError,
+	TLPackError,
+	UnsupportedTypeError,
+} from '../dist/index.js';
+import { TLFrameDecode, TLFrameEncode } from '../dist/stream.js';
+
+const VALUES = [{ name: 'Andrew', role: 'admin' }, { name: 'Anna', role: 'admin' }, 'text', 42];
+
+function readAll(decoder) {
+	const values = [];
+	let result;
+
+	while (!(result = decoder.read()).done) {
+		values.push(result.value);
+	}
+
+	return values;
+}
+
+describe('framing', () => {
+	it('round-trips frames of any chunk boundaries', () => {
+		for (const shareDictionary of [false, true]) {
+			const encoder = new FrameEncoder({ shareDictionary });
+			const decoder = new FrameDecoder({ shareDictionary });
+			const bytes = Buffer.concat(VALUES.map((value) => encoder.encode(value)));
+			const values = [];
+
+			for (let i = 0; i < bytes.length; i += 5) {
+				decoder.write(bytes.subarray(i, i + 5));
+				values.push(...readAll(decoder));
+			}
+
+			decoder.end();
+
+			assert.deepEqual(values, VALUES);
+		}
+	});
+
+	it('round-trips frames through streams', async () => {
+		const values = [];
+
+		await pipeline(
+			Readable.from(VALUES),
+			new TLFrameEncode({ shareDictionary: true }),
+			new TLFrameDecode({ shareDictionary: true }),
+			async (source) => {
+				for await (const value of source) values.push(value);
+			},
+		);
+
+		assert.deepEqual(values, VALUES);
+	});
+
+	it('decodes a large frame written in small chunks', () => {
+		const value = { text: 'x'.repeat(65536) };
+		const frame = new FrameEncoder().encode(value);
+		const decoder = new FrameDecoder();
+		const values = [];
+
+		for (let i = 0; i < frame.length; i += 16) {
+			decoder.write(frame.subarray(i, i + 16));
+			values.push(...readAll(decoder));
+		}
+
+		decoder.end();
+
+		assert.deepEqual(values, [value]);
+	});
+
+	it('decodes null frames, rejects them by object mode streams', async () => {
+		const encoder = new FrameEncoder();
+		const bytes = Buffer.concat([1, null, 2].map((value) => encoder.encode(value)));
+		const decoder = new FrameDecoder();
+
+		decoder.write(bytes);
+
+		assert.deepEqual(readAll(decoder), [1, null, 2]);
+
+		await assert.rejects(
+			pipeline(Readable.from([bytes]), new TLFrameDecode(), async (source) => {
+				for await (const value of source) void value;
+			}),
+			(err) => err instanceof TLPackError && /^Null element/.test(err.reason),
+		);
+	});
+
+	it('rejects frames over maxFrameSize', () => {
+		const encoder = new FrameEncoder({ maxFrameSize: 8 });
+
+		assert.throws(
+			() => encoder.encode('x'.repeat(100)),
+			(err) => err instanceof LimitExceededError && err.limit === 'maxFrameSize',
+		);
+
+		const frame = new FrameEncoder().encode('x'.repeat(100));
+		const decoder = new FrameDecoder({ maxFrameSize: 8 });
+
+		decoder.write(frame);
+
+		assert.throws(() => decoder.read(), {
+			name: 'LimitExceededError',
+			limit: 'maxFrameSize',
+			offset: 0,
+		});
+	});
+
+	it('keeps the shared dictionary in sync after an oversized frame', () => {
+		const encoder = new FrameEncoder({ maxFrameSize: 64, shareDictionary: true });
+		const decoder = new FrameDecoder({ shareDictionary: true });
+
+		assert.throws(() => encoder.encode({ key: 'x'.repeat(100) }), LimitExceededError);
+
+		decoder.write(encoder.encode({ key: 1 }));
+
+		assert.deepEqual(readAll(decoder), [{ key: 1 }]);
+	});
+
+	it('rejects empty and incomplete frames', () => {
+		assert.throws(() => new FrameEncoder().encode(undefined), UnsupportedTypeError);
+
+		const empty = new FrameDecoder();
+
+		empty.write(new Uint8Array(4));
+
+		assert.throws(
+			() => empty.read(),
+			(err) => err instanceof TLPackError && /^Empty frame/.test(err.message),
+		);
+
+		const incomplete = new FrameDecoder();
+		const frame = new FrameEncoder().encode(VALUES[0]);
+
+		incomplete.write(frame.subarray(0, frame.length - 1));
+
+		assert.deepEqual(readAll(incomplete), []);
+		assert.throws(() => incomplete.end(), IncompleteDataError);
+	});
+});
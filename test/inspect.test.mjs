@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, inspect, inspectNodes } from '../dist/index.js';
+
+describe('inspect', () => {
+	it('describes every node of the buffer', () => {
+		const value = { id: 1, tags: ['a', 'a'] };
+		const buffer = new BinaryWriter().encode(value);
+		const nodes = inspectNodes(buffer);
+
+		assert.deepEqual(
+			nodes.map((node) => [node.offset, node.type, node.key, node.value]),
+			[
+				[0, 'Map', undefined, undefined],
+				[1, 'DictValue', undefined, 'id'],
+				[5, 'UInt8', 'id', 1],
+				[7, 'DictValue', undefined, 'tags'],
+				[13, 'Vector', 'tags', undefined],
+				[15, 'DictValue', 0, 'a'],
+				[18, 'Repeat', 1, undefined],
+			],
+		);
+
+		assert.equal(nodes[0].size, buffer.length);
+		assert.equal(nodes[6].repeat, 1);
+		assert.deepEqual(new BinaryReader(buffer).readObject(), value);
+	});
+
+	it('formats nodes as lines', () => {
+		const output = inspect(new BinaryWriter().encode({ id: 1 }));
+
+		assert.deepEqual(output.split('\n'), [
+			'000000  10                        Map',
+			'000001  11 02 69 64                 DictValue #0 "id"',
+			'000005  0d 01                       id: UInt8 1',
+		]);
+	});
+
+	it('ends with an error node on invalid data', () => {
+		const buffer = new BinaryWriter().encode({ id: 1, tags: ['a'] });
+		const nodes = inspectNodes(buffer.subarray(0, 6));
+		const last = nodes[nodes.length - 1];
+
+		assert.equal(last.type, 'Error');
+		assert.equal(last.offset, 6);
+		assert.match(last.error, /^No more data left to read/);
+
+		assert.match(inspect(new Uint8Array([250])), /Error Invalid constructor = 250/);
+	});
+});
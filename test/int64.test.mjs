@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, UnsupportedTypeError } from '../dist/index.js';
+
+const decode = (value, options) =>
+	new BinaryReader(new BinaryWriter().encode(value), options).readObject();
+
+describe('64-bit integers', () => {
+	it('round-trips bigint values at the type bounds', () => {
+		const values = [-(2n ** 63n), -1n, 0n, 2n ** 63n - 1n, 2n ** 64n - 1n];
+
+		assert.deepEqual(decode(values, { int64: 'bigint' }), values);
+	});
+
+	it('returns safe integers as numbers by default', () => {
+		assert.deepEqual(decode([2 ** 40, -(2 ** 40), 2n ** 60n]), [2 ** 40, -(2 ** 40), 2n ** 60n]);
+	});
+
+	it('returns decimal strings in string mode', () => {
+		assert.equal(decode(2n ** 64n - 1n, { int64: 'string' }), '18446744073709551615');
+	});
+
+	it('rejects bigint out of 64-bit range', () => {
+		assert.throws(() => new BinaryWriter().encode(2n ** 64n), UnsupportedTypeError);
+		assert.throws(() => new BinaryWriter().encode(-(2n ** 63n) - 1n), UnsupportedTypeError);
+	});
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	IncompleteDataError,
+	LimitExceededError,
+	decodeIterable,
+	encodeIterable,
+} from '../dist/index.js';
+
+const VALUES = [{ id: 1, name: 'Andrew' }, { id: 2, name: 'Anna' }, 'text', [1, 2, 3], null];
+
+async function collect(iterable) {
+	const result = [];
+
+	for await (const item of iterable) {
+		result.push(item);
+	}
+
+	return result;
+}
+
+async function* generate(values) {
+	for (const value of values) {
+		yield value;
+	}
+}
+
+describe('iterable helpers', () => {
+	it('round-trips sync and async sources', async () => {
+		assert.deepEqual(await collect(decodeIterable(encodeIterable(VALUES))), VALUES);
+		assert.deepEqual(await collect(decodeIterable(encodeIterable(generate(VALUES)))), VALUES);
+	});
+
+	it('yields values as soon as they are complete', async () => {
+		const bytes = Buffer.concat(await collect(encodeIterable(VALUES)));
+		const chunks = [];
+
+		for (let i = 0; i < bytes.length; i++) {
+			chunks.push(bytes.subarray(i, i + 1));
+		}
+
+		assert.deepEqual(await collect(decodeIterable(chunks)), VALUES);
+	});
+
+	it('throws on truncated input', async () => {
+		const bytes = Buffer.concat(await collect(encodeIterable(VALUES)));
+
+		await assert.rejects(
+			collect(decodeIterable([bytes.subarray(0, bytes.length - 3)])),
+			IncompleteDataError,
+		);
+	});
+
+	it('passes reader options to the parser', async () => {
+		const chunks = await collect(encodeIterable([[1, 2, 3]]));
+
+		await assert.rejects(
+			collect(decodeIterable(chunks, { maxVectorLength: 2 })),
+			LimitExceededError,
+		);
+	});
+});
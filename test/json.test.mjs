@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	InvalidConstructorError,
+	TLPackError,
+	binaryToJSON,
+	createExtension,
+	jsonToBinary,
+} from '../dist/index.js';
+
+class Point {
+	constructor(x, y) {
+		this.x = x;
+		this.y = y;
+	}
+}
+
+const point = createExtension(40, {
+	encode(value) {
+		this.writeInt32(value.x);
+		this.writeInt32(value.y);
+	},
+	decode() {
+		return new Point(this.readInt32(), this.readInt32());
+	},
+	toJSON: (value) => [value.x, value.y],
+	Class: Point,
+});
+
+describe('json transcoding', () => {
+	it('transcodes binary into the JSON string of decoded value', () => {
+		const value = {
+			date: new Date(0),
+			bytes: new Uint8Array([1, 2]),
+			repeat: ['x', 'x', 'x'],
+			nested: { a: null, b: [true, false, -1.5], c: 'line\n"quoted"' },
+		};
+
+		const buffer = new BinaryWriter().encode(value);
+
+		// binary is written as base64
+		assert.equal(binaryToJSON(buffer), JSON.stringify({ ...value, bytes: 'AQI=' }));
+	});
+
+	it('uses JSON form of extensions', () => {
+		const buffer = new BinaryWriter({ extensions: [point] }).encode({ p: new Point(1, 2) });
+
+		assert.equal(binaryToJSON(buffer, { extensions: [point] }), '{"p":[1,2]}');
+	});
+
+	it('round-trips JSON text through binary', () => {
+		const text = '{"a":[1,2.5,"s",true,null],"b":{"c":"d"},"e":-7}';
+		const buffer = jsonToBinary(text);
+
+		assert.deepEqual(new BinaryReader(buffer).readObject(), JSON.parse(text));
+		assert.equal(binaryToJSON(buffer), text);
+	});
+
+	it('rejects invalid input', () => {
+		assert.throws(() => jsonToBinary('{"a":'), SyntaxError);
+		assert.throws(() => jsonToBinary('[1,]'), SyntaxError);
+		assert.throws(() => binaryToJSON(new Uint8Array([250])), InvalidConstructorError);
+
+		const dictionary = ['id', 'name'];
+		const key = new BinaryWriter({ dictionary }).encode({ name: 'a' });
+		const value = new BinaryWriter({ dictionary }).encode({ a: 'name' });
+
+		for (const buffer of [key, value]) {
+			assert.equal(
+				binaryToJSON(buffer, { dictionary }),
+				JSON.stringify(new BinaryReader(buffer, { dictionary }).readObject()),
+			);
+			assert.throws(
+				() => binaryToJSON(buffer),
+				(err) => err instanceof TLPackError && err.reason === 'Unknown dictionary index = 1',
+			);
+		}
+	});
+});
@@ -0,0 +1,102 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	LazyMap,
+	LazyVector,
+	LimitExceededError,
+	TLPackError,
+} from '../dist/index.js';
+
+describe('lazy decoding', () => {
+	it('decodes values only when accessed', () => {
+		const value = {
+			id: 1,
+			user: { name: 'Andrew', tags: ['admin', 'owner'] },
+			items: [1, 1, 1, 'x', { a: true }],
+		};
+
+		const buffer = new BinaryWriter().encode(value);
+		const view = new BinaryReader(buffer).decodeLazy(buffer);
+
+		assert.ok(view instanceof LazyMap);
+		assert.equal(view.size, 3);
+		assert.equal(view.get('id'), 1);
+		assert.equal(view.get('missing'), undefined);
+
+		const user = view.get('user');
+
+		assert.ok(user instanceof LazyMap);
+		assert.equal(user.get('name'), 'Andrew');
+		assert.strictEqual(view.get('user'), user);
+
+		const items = view.get('items');
+
+		assert.ok(items instanceof LazyVector);
+		assert.equal(items.length, 5);
+		assert.equal(items.get(2), 1);
+		assert.deepEqual(items.toArray(), value.items);
+		assert.deepEqual(view.toObject(), value);
+		assert.deepEqual(JSON.parse(JSON.stringify(view)), value);
+	});
+
+	it('decodes dynamic vectors', () => {
+		const writer = new BinaryWriter();
+
+		writer.startDynamicVector();
+		writer.writeObject({ a: 1 });
+		writer.writeObject('b');
+		writer.endDynamicVector();
+
+		const buffer = writer.getBuffer();
+		const view = new BinaryReader(buffer).decodeLazy(buffer);
+
+		assert.ok(view instanceof LazyVector);
+		assert.deepEqual(view.toArray(), [{ a: 1 }, 'b']);
+	});
+
+	it('enforces limits of maps and vectors', () => {
+		const map = new BinaryWriter().encode({ a: 1, b: 2, c: 3 });
+		const vector = new BinaryWriter().encode([1, 2, 3]);
+
+		assert.throws(() => new BinaryReader(map, { maxMapKeys: 2 }).decodeLazy(map), {
+			name: 'LimitExceededError',
+			limit: 'maxMapKeys',
+		});
+
+		assert.throws(
+			() => new BinaryReader(vector, { maxVectorLength: 2 }).decodeLazy(vector),
+			(err) => err instanceof LimitExceededError && err.limit === 'maxVectorLength',
+		);
+	});
+
+	it('keeps the repeated value of the reader while accessing views', () => {
+		const map = new BinaryWriter().encode({ a: { b: 1 }, c: ['d'] });
+		const item = new BinaryWriter().encode(7);
+		const buffer = new Uint8Array([...map, ...item, 20, 2]);
+		const reader = new BinaryReader(buffer);
+		const view = reader.readLazy();
+
+		assert.equal(reader.readObject(), 7);
+		assert.deepEqual(view.get('a').toObject(), { b: 1 });
+		// the repeat token repeats the value read before the access
+		assert.equal(reader.readObject(), 7);
+		assert.deepEqual(view.get('c').toArray(), ['d']);
+		assert.equal(reader.readObject(), 7);
+	});
+
+	it('rejects invalid repeats', () => {
+		// repeat of the first item, there is no value to repeat
+		const first = new Uint8Array([6, 2, 20, 1, 13, 7]);
+		// repeat past the vector length
+		const overflow = new Uint8Array([6, 2, 13, 7, 20, 5]);
+
+		for (const buffer of [first, overflow]) {
+			assert.throws(
+				() => new BinaryReader(buffer).decodeLazy(buffer),
+				(err) => err instanceof TLPackError && /^Invalid repeat/.test(err.message),
+			);
+		}
+	});
+});
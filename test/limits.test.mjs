@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, LimitExceededError } from '../dist/index.js';
+
+function encode(value) {
+	return new BinaryWriter().encode(value);
+}
+
+describe('reader limits', () => {
+	it('decodes values within limits', () => {
+		const value = { list: [1, 2, 3], name: 'Andrew', bytes: new Uint8Array([1, 2]) };
+		const reader = new BinaryReader(encode(value), {
+			maxDepth: 3,
+			maxStringLength: 6,
+			maxBinaryLength: 2,
+			maxVectorLength: 3,
+			maxMapKeys: 3,
+			maxDictionarySize: 4,
+		});
+
+		assert.deepEqual(reader.readObject(), value);
+	});
+
+	it('releases depth of decoded siblings and failed values', () => {
+		const siblings = encode([{ a: { b: 1 } }, { a: { b: 2 } }, { a: { b: 3 } }]);
+
+		assert.equal(new BinaryReader(siblings, { maxDepth: 4 }).readObject().length, 3);
+
+		const reader = new BinaryReader(new Uint8Array(0), { maxDepth: 3 });
+
+		assert.throws(() => reader.decode(encode({ a: { b: { c: 1 } } })), {
+			name: 'LimitExceededError',
+			limit: 'maxDepth',
+			value: 4,
+			max: 3,
+		});
+
+		assert.deepEqual(reader.decode(encode({ a: { b: 1 } })), { a: { b: 1 } });
+	});
+
+	it('rejects values over limits', () => {
+		const cases = [
+			['maxStringLength', 'x'.repeat(10), 5],
+			['maxBinaryLength', new Uint8Array(10), 5],
+			['maxVectorLength', [1, 2, 3], 2],
+			['maxMapKeys', { a: 1, b: 2, c: 3 }, 2],
+			['maxDictionarySize', [{ a: 1 }, { b: 2 }, { c: 3 }], 2],
+		];
+
+		for (const [limit, value, max] of cases) {
+			assert.throws(
+				() => new BinaryReader(encode(value), { [limit]: max }).readObject(),
+				(err) => err instanceof LimitExceededError && err.limit === limit && err.max === max,
+				limit,
+			);
+		}
+	});
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, LazyMap, TLPackError } from '../dist/index.js';
+
+function roundTrip(value) {
+	const buffer = new BinaryWriter({ references: true }).encode(value);
+
+	return new BinaryReader(buffer, { references: true }).readObject();
+}
+
+describe('references', () => {
+	it('keeps identity of shared values', () => {
+		const shared = { a: 1 };
+		const list = [1, 2];
+		const map = new Map([['k', shared]]);
+		const set = new Set([list]);
+		const result = roundTrip({ x: shared, y: shared, list, again: list, map, set, map2: map });
+
+		assert.deepEqual(result.x, { a: 1 });
+		assert.strictEqual(result.x, result.y);
+		assert.strictEqual(result.list, result.again);
+		assert.strictEqual(result.map, result.map2);
+		assert.strictEqual(result.map.get('k'), result.x);
+		assert.strictEqual([...result.set][0], result.list);
+	});
+
+	it('decodes circular values', () => {
+		const root = { name: 'root', children: [] };
+
+		root.self = root;
+		root.children.push({ parent: root });
+		root.children.push(root.children);
+
+		const result = roundTrip(root);
+
+		assert.equal(result.name, 'root');
+		assert.strictEqual(result.self, result);
+		assert.strictEqual(result.children[0].parent, result);
+		assert.strictEqual(result.children[1], result.children);
+	});
+
+	it('resolves references in lazy views', () => {
+		const shared = { a: 1 };
+		const root = { x: shared, y: shared };
+
+		root.self = root;
+
+		const buffer = new BinaryWriter({ references: true }).encode(root);
+		const view = new BinaryReader(buffer, { references: true }).decodeLazy(buffer);
+
+		assert.ok(view.get('x') instanceof LazyMap);
+		assert.strictEqual(view.get('x'), view.get('y'));
+		assert.strictEqual(view.get('self'), view);
+
+		const result = view.toObject();
+
+		assert.strictEqual(result.x, result.y);
+		assert.strictEqual(result.self, result);
+	});
+
+	it('rejects unknown references', () => {
+		const shared = { a: 1 };
+		const buffer = new BinaryWriter({ references: true }).encode({ x: shared, y: shared });
+
+		assert.throws(
+			() => new BinaryReader(buffer).readObject(),
+			(err) => err instanceof TLPackError && err.reason === 'Unknown reference = 1',
+		);
+
+		assert.throws(
+			() => new BinaryReader(new Uint8Array([28, 5]), { references: true }).readObject(),
+			{ name: 'TLPackError', reason: 'Unknown reference = 5' },
+		);
+	});
+});
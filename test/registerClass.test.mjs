@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	UnsupportedTypeError,
+	binaryToJSON,
+	registerClass,
+} from '../dist/index.js';
+
+class Point {
+	constructor(x, y) {
+		this.x = x;
+		this.y = y;
+	}
+}
+
+class Point3D extends Point {}
+
+class Node {
+	constructor(value, next) {
+		this.value = value;
+		this.next = next;
+	}
+}
+
+const extensions = [
+	registerClass(40, Point, {
+		toFields: (point) => [point.x, point.y],
+		fromFields: ([x, y]) => new Point(x, y),
+	}),
+	registerClass(300, Node, {
+		toFields: (node) => ({ value: node.value, next: node.next }),
+		fromFields: ({ value, next }) => new Node(value, next),
+		toJSON: (node) => `node ${node.value}`,
+	}),
+];
+
+function roundTrip(value, options) {
+	const buffer = new BinaryWriter({ extensions, ...options }).encode(value);
+
+	return new BinaryReader(buffer, { extensions, ...options }).readObject();
+}
+
+describe('class registry', () => {
+	it('round-trips class instances', () => {
+		const result = roundTrip({ from: new Point(1, 2), path: [new Point3D(3, 4)] });
+
+		assert.ok(result.from instanceof Point);
+		assert.deepEqual(result.from, new Point(1, 2));
+		assert.ok(result.path[0] instanceof Point);
+		assert.deepEqual(result.path[0], new Point(3, 4));
+	});
+
+	it('nests instances and keeps shared instances with references', () => {
+		const shared = new Point(1, 1);
+		const list = new Node('a', new Node('b', null));
+		const result = roundTrip({ a: shared, b: shared, list }, { references: true });
+
+		assert.strictEqual(result.a, result.b);
+		assert.ok(result.list.next instanceof Node);
+		assert.equal(result.list.next.value, 'b');
+	});
+
+	it('keeps shared values of a top-level instance with references', () => {
+		const shared = { a: 1 };
+		const result = roundTrip(new Point(shared, shared), { references: true });
+
+		assert.ok(result instanceof Point);
+		assert.deepEqual(result.x, { a: 1 });
+		assert.strictEqual(result.x, result.y);
+
+		const list = roundTrip(new Node([shared, shared], null), { references: true });
+
+		assert.deepEqual(list.value, [{ a: 1 }, { a: 1 }]);
+		assert.strictEqual(list.value[0], list.value[1]);
+	});
+
+	it('writes JSON form of instances', () => {
+		const buffer = new BinaryWriter({ extensions }).encode({
+			point: new Point(1, 2),
+			node: new Node('a', null),
+		});
+
+		assert.equal(binaryToJSON(buffer, { extensions }), '{"point":[1,2],"node":"node a"}');
+	});
+
+	it('rejects circular instances and invalid registrations', () => {
+		const node = new Node('a', null);
+
+		node.next = node;
+
+		assert.throws(
+			() => new BinaryWriter({ extensions, references: true }).encode(node),
+			(err) =>
+				err instanceof UnsupportedTypeError &&
+				err.reason === 'Circular reference to instance of extension 300',
+		);
+
+		const handlers = { toFields: () => null, fromFields: () => null };
+
+		assert.throws(() => registerClass(-1, Point, handlers), TypeError);
+		assert.throws(() => registerClass(41, null, handlers), TypeError);
+		assert.throws(() => new BinaryWriter({ extensions: [...extensions, extensions[0]] }), {
+			name: 'TypeError',
+			message: 'Duplicate extension token = 40',
+		});
+	});
+});
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { describe, it } from 'node:test';
+import { RpcError, RpcPeer, createDuplexPair } from '../dist/rpc.js';
+
+function createPeers(handlers) {
+	const [a, b] = createDuplexPair();
+	const client = new RpcPeer(a);
+	const server = new RpcPeer(b, { handlers });
+
+	return { client, server };
+}
+
+describe('rpc', () => {
+	it('calls methods of the other peer', async () => {
+		const { client, server } = createPeers({
+			sum: ({ a, b }) => a + b,
+			user: async (id) => ({ id, name: 'Andrew' }),
+		});
+
+		assert.equal(await client.call('sum', { a: 1, b: 2 }), 3);
+		assert.deepEqual(await client.call('user', 7), { id: 7, name: 'Andrew' });
+
+		server.register('echo', (params, context) => [params, context.method]);
+
+		assert.deepEqual(await client.call('echo', 'x'), ['x', 'echo']);
+
+		client.close();
+		await once(server, 'close');
+	});
+
+	it('delivers notifications', async () => {
+		const { client, server } = createPeers();
+		const received = once(server, 'notification');
+
+		client.notify('log', { level: 'info' });
+
+		assert.deepEqual(await received, ['log', { level: 'info' }]);
+
+		client.close();
+	});
+
+	it('rejects unknown methods and handler errors', async () => {
+		const { client } = createPeers({
+			fail: () => {
+				throw new RpcError('Not allowed', 'FORBIDDEN', { reason: 'test' });
+			},
+		});
+
+		await assert.rejects(client.call('missing'), {
+			name: 'RpcError',
+			code: 'METHOD_NOT_FOUND',
+		});
+
+		await assert.rejects(client.call('fail'), {
+			name: 'RpcError',
+			code: 'FORBIDDEN',
+			message: 'Not allowed',
+			data: { reason: 'test' },
+		});
+
+		client.close();
+	});
+
+	it('keeps the connection usable after encoding errors', async () => {
+		const { client } = createPeers({
+			symbol: () => Symbol('x'),
+			ping: () => 'pong',
+		});
+
+		await assert.rejects(client.call('ping', Symbol('x')));
+		await assert.rejects(client.call('symbol'), { name: 'RpcError', code: 'ENCODE_ERROR' });
+
+		assert.equal(await client.call('ping'), 'pong');
+
+		client.close();
+	});
+
+	it('times out and rejects pending calls on close', async () => {
+		const { client } = createPeers({
+			never: () => new Promise(() => {}),
+		});
+
+		await assert.rejects(client.call('never', null, { timeout: 10 }), {
+			name: 'RpcError',
+			code: 'TIMEOUT',
+		});
+
+		const pending = client.call('never', null, { timeout: 0 });
+
+		client.close();
+
+		await assert.rejects(pending, { name: 'RpcError', code: 'CONNECTION_CLOSED' });
+		await assert.rejects(client.call('never'), { code: 'CONNECTION_CLOSED' });
+	});
+});
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	InvalidConstructorError,
+	createConstructor,
+} from '../dist/index.js';
+
+const user = createConstructor(0xd23c81a3, {
+	name: 'user',
+	fields: [
+		{ name: 'id', type: 'int32' },
+		{ name: 'name', type: 'string' },
+		{ name: 'tags', type: { vector: 'string' } },
+		{ name: 'extra', type: 'object' },
+	],
+});
+
+describe('schema constructors', () => {
+	it('round-trips constructor objects mixed with schemaless values', () => {
+		const value = {
+			owner: { _: 'user', id: 1, name: 'Andrew', tags: ['admin'], extra: { a: 1 } },
+			plain: { _: 'unknown', id: 2 },
+		};
+
+		const buffer = new BinaryWriter({ constructors: [user] }).encode(value);
+
+		assert.deepEqual(new BinaryReader(buffer, { constructors: [user] }).readObject(), value);
+	});
+
+	it('writes fields without keys', () => {
+		const value = { _: 'user', id: 1, name: 'a', tags: [], extra: null };
+		const schemaless = new BinaryWriter().encode(value).length;
+		const schema = new BinaryWriter({ constructors: [user] }).encode(value).length;
+
+		assert.ok(schema < schemaless);
+	});
+
+	it('rejects unknown constructor id', () => {
+		const buffer = new BinaryWriter({ constructors: [user] }).encode({
+			_: 'user',
+			id: 1,
+			name: 'a',
+			tags: [],
+			extra: null,
+		});
+
+		assert.throws(() => new BinaryReader(buffer).readObject(), InvalidConstructorError);
+	});
+
+	it('validates constructor definitions', () => {
+		assert.throws(() => createConstructor(-1, { name: 'a', fields: [] }), TypeError);
+		assert.throws(
+			() => createConstructor(1, { name: 'a', fields: [{ name: 'x', type: 'int128' }] }),
+			TypeError,
+		);
+	});
+});
@@ -0,0 +1,129 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	IncompleteDataError,
+	TLPackError,
+	decodeIterable,
+} from '../dist/index.js';
+import { TLDecode, TLEncode } from '../dist/stream.js';
+import { StreamParser } from '../dist/streamParser.js';
+
+const VALUES = [{ id: 1, name: 'Andrew' }, 'text', [1, 2, 3], null, { long: 'x'.repeat(300) }];
+
+function encodeStream(values) {
+	const writer = new BinaryWriter();
+
+	writer.startDynamicVector();
+
+	for (const value of values) {
+		writer.writeObject(value);
+	}
+
+	writer.endDynamicVector();
+
+	return writer.getBuffer();
+}
+
+function readAll(parser) {
+	const values = [];
+	let result;
+
+	while (!(result = parser.read()).done) {
+		values.push(result.value);
+	}
+
+	return values;
+}
+
+describe('stream parser', () => {
+	it('parses elements split across chunks', () => {
+		const buffer = encodeStream(VALUES);
+		const parser = new StreamParser(new BinaryReader(new Uint8Array(0)));
+		const values = [];
+
+		for (let i = 0; i < buffer.length; i += 7) {
+			parser.write(buffer.subarray(i, i + 7));
+			values.push(...readAll(parser));
+		}
+
+		parser.end();
+
+		assert.deepEqual(values, VALUES);
+	});
+
+	it('waits for missing bytes before parsing again', () => {
+		const buffer = encodeStream([{ long: 'x'.repeat(1000) }]);
+		const reader = new BinaryReader(new Uint8Array(0));
+		const parser = new StreamParser(reader);
+		const readObject = reader.readObject;
+
+		let attempts = 0;
+
+		reader.readObject = function () {
+			attempts++;
+			return readObject.call(this);
+		};
+
+		for (let i = 0; i < buffer.length; i++) {
+			parser.write(buffer.subarray(i, i + 1));
+			readAll(parser);
+		}
+
+		// the header is parsed a few times, the string only once all of it arrived
+		assert.ok(attempts < buffer.length / 10, `parsed ${attempts} times`);
+	});
+
+	it('throws when the stream ends with an incomplete element', () => {
+		const buffer = encodeStream(VALUES);
+		const parser = new StreamParser(new BinaryReader(new Uint8Array(0)));
+
+		parser.write(buffer.subarray(0, buffer.length - 5));
+		readAll(parser);
+
+		assert.throws(() => parser.end(), IncompleteDataError);
+	});
+
+	it('round-trips values through TLEncode and TLDecode', async () => {
+		// object mode streams do not accept null writes
+		const input = VALUES.filter((value) => value !== null);
+		const values = [];
+
+		await pipeline(Readable.from(input), new TLEncode(), new TLDecode(), async (source) => {
+			for await (const value of source) values.push(value);
+		});
+
+		assert.deepEqual(values, input);
+	});
+
+	it('rejects null elements by TLDecode instead of ending the stream', async () => {
+		const buffer = encodeStream([1, null, 2, 3]);
+
+		await assert.rejects(
+			pipeline(Readable.from([buffer]), new TLDecode(), async (source) => {
+				for await (const value of source) void value;
+			}),
+			(err) => err instanceof TLPackError && /^Null element/.test(err.reason),
+		);
+
+		const decoded = [];
+
+		for await (const value of decodeIterable([buffer])) decoded.push(value);
+
+		assert.deepEqual(decoded, [1, null, 2, 3]);
+	});
+
+	it('fails TLDecode on truncated input', async () => {
+		const buffer = encodeStream(VALUES);
+
+		await assert.rejects(
+			pipeline(Readable.from([buffer.subarray(0, 10)]), new TLDecode(), async (source) => {
+				for await (const value of source) void value;
+			}),
+			IncompleteDataError,
+		);
+	});
+});
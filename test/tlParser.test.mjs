@@ -0,0 +1,131 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+import { BinaryReader, BinaryWriter, generateTypeScript, parseTL } from '../dist/index.js';
+
+const CLI = fileURLToPath(new URL('../dist/tlgen.js', import.meta.url));
+
+const SCHEMA = `
+user#d23c81a3 flags:# id:int name:string username:flags.0?string = User;
+userEmpty#200250ba id:int = User;
+---functions---
+users.getUsers#0d91a548 id:Vector<int> = Vector<User>;
+`;
+
+async function importGenerated(source) {
+	const { outputText } = ts.transpileModule(source, {
+		compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2020 },
+	});
+
+	return import(`data:text/javascript,${encodeURIComponent(outputText)}`);
+}
+
+describe('TL schema', () => {
+	it('parses constructors and functions', () => {
+		const schema = parseTL(SCHEMA);
+
+		assert.deepEqual(
+			schema.constructors.map((def) => [def.name, def.id, def.type.name]),
+			[
+				['user', 0xd23c81a3, 'User'],
+				['userEmpty', 0x200250ba, 'User'],
+			],
+		);
+
+		const [getUsers] = schema.functions;
+
+		assert.equal(getUsers.name, 'users.getUsers');
+		assert.equal(getUsers.kind, 'function');
+		assert.deepEqual(schema.constructors[0].params[3].flag, { field: 'flags', bit: 0 });
+	});
+
+	it('round-trips values through generated code', async () => {
+		const source = generateTypeScript(parseTL(SCHEMA));
+		const generated = await importGenerated(source);
+
+		const users = [
+			{ _: 'user', id: 1, name: 'Andrew', username: 'andrew' },
+			{ _: 'user', id: 2, name: 'Anna' },
+			{ _: 'userEmpty', id: 3 },
+		];
+
+		for (const user of users) {
+			const writer = new BinaryWriter();
+
+			generated.encodeTypeUser(writer, user);
+
+			const reader = new BinaryReader(writer.getBuffer());
+
+			assert.deepEqual(generated.decodeTypeUser(reader), user);
+		}
+	});
+
+	it('rejects unknown constructor ids in generated code', async () => {
+		const generated = await importGenerated(generateTypeScript(parseTL(SCHEMA)));
+		const writer = new BinaryWriter();
+
+		writer.writeInt32(0x12345678, false);
+
+		assert.throws(() => generated.decodeTypeUser(new BinaryReader(writer.getBuffer())), {
+			message: 'Unknown constructor id 0x12345678 of type User',
+		});
+	});
+
+	it('reports syntax errors with line numbers', () => {
+		assert.throws(() => parseTL('user#d23c81a3 id:int = User'), {
+			name: 'SyntaxError',
+			message: 'Missing ";" at line 1',
+		});
+
+		assert.throws(() => parseTL('\nuser#d23c81a3 name:flags.0?string = User;'), {
+			name: 'SyntaxError',
+			message: 'Unknown flags field "flags" at line 2',
+		});
+	});
+
+	it('generates a module file by the tl-gen cli', async () => {
+		const dir = mkdtempSync(join(tmpdir(), 'tl-gen-'));
+
+		try {
+			const input = join(dir, 'schema.tl');
+			const output = join(dir, 'schema.ts');
+
+			writeFileSync(input, SCHEMA);
+
+			const args = [CLI, input, '-o', output, '--import', '../dist/index.js'];
+			const result = spawnSync(process.execPath, args, { timeout: 30000 });
+
+			assert.equal(result.status, 0);
+			assert.equal(
+				result.stdout.toString(),
+				`Generated 2 constructors and 1 functions into ${output}\n`,
+			);
+
+			const source = readFileSync(output, 'utf8');
+
+			assert.equal(source, generateTypeScript(parseTL(SCHEMA), { importFrom: '../dist/index.js' }));
+
+			const generated = await importGenerated(source);
+			const writer = new BinaryWriter();
+			const user = { _: 'userEmpty', id: 3 };
+
+			generated.encodeTypeUser(writer, user);
+			assert.deepEqual(generated.decodeTypeUser(new BinaryReader(writer.getBuffer())), user);
+
+			writeFileSync(input, 'user#d23c81a3 id:int = User');
+
+			const invalid = spawnSync(process.execPath, [CLI, input, '-o', output], { timeout: 30000 });
+
+			assert.equal(invalid.status, 1);
+			assert.equal(invalid.stderr.toString(), 'Missing ";" at line 1\n');
+			assert.equal(readFileSync(output, 'utf8'), source);
+		} finally {
+			rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
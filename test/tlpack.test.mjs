@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { BinaryReader } from '../dist/index.js';
+import { TLDecode, TLEncode } from '../dist/stream.js';
+
+const CLI = fileURLToPath(new URL('../dist/tlpack.js', import.meta.url));
+
+function tlpack(args, input) {
+	return spawnSync(process.execPath, [CLI, ...args], { input, timeout: 30000 });
+}
+
+describe('tlpack cli', () => {
+	it('encodes and decodes JSON', () => {
+		const value = { id: 1, name: 'Andrew', tags: ['a', 'b'] };
+		const encoded = tlpack(['encode'], JSON.stringify(value));
+
+		assert.equal(encoded.status, 0);
+		assert.deepEqual(new BinaryReader(encoded.stdout).readObject(), value);
+
+		const decoded = tlpack(['decode'], encoded.stdout);
+
+		assert.equal(decoded.status, 0);
+		assert.deepEqual(JSON.parse(decoded.stdout.toString()), value);
+	});
+
+	it('encodes and decodes NDJSON streams', () => {
+		const input = '{"a":1}\n{"a":2}\n';
+		const encoded = tlpack(['encode', '--stream'], input);
+		const decoded = tlpack(['decode', '-s'], encoded.stdout);
+
+		assert.equal(decoded.status, 0);
+		assert.equal(decoded.stdout.toString(), input);
+	});
+
+	it('keeps null lines of NDJSON streams', () => {
+		const input = '1\nnull\n{"a":null}\nnull\n2\n';
+		const encoded = tlpack(['encode', '--stream'], input);
+
+		assert.equal(encoded.status, 0);
+		assert.deepEqual(new BinaryReader(encoded.stdout).readObject(), [
+			1,
+			null,
+			{ a: null },
+			null,
+			2,
+		]);
+
+		const decoded = tlpack(['decode', '--stream'], encoded.stdout);
+
+		assert.equal(decoded.status, 0);
+		assert.equal(decoded.stdout.toString(), input);
+
+		const truncated = tlpack(['decode', '--stream'], encoded.stdout.subarray(0, -1));
+
+		assert.equal(truncated.status, 1);
+		assert.match(truncated.stderr.toString(), /incomplete/i);
+	});
+
+	it('prints inspect dump and stats', () => {
+		const encoded = tlpack(['encode'], '{"id":1}').stdout;
+		const dump = tlpack(['inspect'], encoded).stdout.toString();
+
+		assert.match(dump, /^000000 {2}10 +Map$/m);
+
+		const stats = tlpack(['stats'], '{"id":1}').stdout.toString();
+
+		assert.match(stats, /^JSON: +8 bytes$/m);
+		assert.match(stats, /^tl-pack: +8 bytes/m);
+	});
+
+	it('fails on invalid arguments and data', () => {
+		const usage = tlpack(['unknown']);
+
+		assert.equal(usage.status, 1);
+		assert.match(usage.stderr.toString(), /^Usage: tlpack/);
+
+		const threshold = tlpack(['encode', '-z', '-t', 'x'], '{}');
+
+		assert.equal(threshold.status, 1);
+		assert.match(threshold.stderr.toString(), /Invalid threshold x/);
+
+		const invalid = tlpack(['decode'], Buffer.from([250]));
+
+		assert.equal(invalid.status, 1);
+		assert.match(invalid.stderr.toString(), /Invalid constructor = 250/);
+	});
+
+	it('does not modify options of stream transforms', () => {
+		const streamOptions = { highWaterMark: 4 };
+		const encode = new TLEncode({ streamOptions });
+		const decodeOptions = { highWaterMark: 4 };
+		const decode = new TLDecode(decodeOptions);
+
+		assert.deepEqual(streamOptions, { highWaterMark: 4 });
+		assert.deepEqual(decodeOptions, { highWaterMark: 4 });
+		assert.equal(decode.readableObjectMode, true);
+
+		encode.destroy();
+		decode.destroy();
+	});
+});
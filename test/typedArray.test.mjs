@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BinaryReader, BinaryWriter, CORE_TYPES, InvalidConstructorError } from '../dist/index.js';
+
+const decode = (value, options) =>
+	new BinaryReader(new BinaryWriter().encode(value), options).readObject();
+
+describe('typed arrays and binary', () => {
+	it('round-trips typed arrays with their constructors', () => {
+		const values = [
+			new Int8Array([-1, 1]),
+			new Uint16Array([1, 65535]),
+			new Float32Array([1.5]),
+			new Float64Array([Math.PI]),
+			new BigInt64Array([-5n]),
+			new ArrayBuffer(3),
+		];
+
+		const result = decode(values);
+
+		result.forEach((item, i) => {
+			assert.equal(item.constructor, values[i].constructor);
+			assert.deepEqual(item, values[i]);
+		});
+	});
+
+	it('decodes binary as a plain Uint8Array', () => {
+		const buffer = Buffer.from(new BinaryWriter().encode({ bytes: new Uint8Array([1, 2, 3]) }));
+
+		for (const binary of ['view', 'copy']) {
+			const { bytes } = new BinaryReader(buffer, { binary }).readObject();
+
+			assert.equal(Object.getPrototypeOf(bytes), Uint8Array.prototype);
+			assert.deepEqual([...bytes], [1, 2, 3]);
+			assert.equal(bytes.buffer === buffer.buffer, binary === 'view');
+		}
+	});
+
+	it('rejects unknown typed array type', () => {
+		const buffer = new Uint8Array([CORE_TYPES.TypedArray, 0xff, 0, 0]);
+
+		assert.throws(() => new BinaryReader(buffer).readObject(), InvalidConstructorError);
+	});
+
+	it('keeps the alignment of views', () => {
+		const value = new Float64Array([1, 2]);
+		const buffer = new BinaryWriter().encode(['x', value]);
+
+		assert.deepEqual(new BinaryReader(buffer).readObject()[1], value);
+	});
+});
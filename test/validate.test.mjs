@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+	BinaryReader,
+	BinaryWriter,
+	IncompleteDataError,
+	InvalidConstructorError,
+	validate,
+} from '../dist/index.js';
+
+const VALUE = {
+	id: 1,
+	tags: ['a', 'b', 'a'],
+	nested: { map: new Map([['k', 1]]), set: new Set([1, 2]) },
+	bytes: new Uint8Array([1, 2, 3]),
+};
+
+describe('validate', () => {
+	it('accepts well-formed data which decodes', () => {
+		const buffer = new BinaryWriter().encode(VALUE);
+
+		assert.deepEqual(validate(buffer), { valid: true });
+		assert.deepEqual(new BinaryReader(buffer).readObject(), VALUE);
+	});
+
+	it('rejects truncated and corrupted data', () => {
+		const buffer = new BinaryWriter().encode(VALUE);
+		const truncated = validate(buffer.subarray(0, buffer.length - 1));
+
+		assert.equal(truncated.valid, false);
+		assert.ok(truncated.error instanceof IncompleteDataError);
+
+		const corrupted = Uint8Array.from(buffer);
+
+		corrupted[0] = 250;
+
+		const invalid = validate(corrupted);
+
+		assert.equal(invalid.valid, false);
+		assert.equal(invalid.offset, 0);
+		assert.ok(invalid.error instanceof InvalidConstructorError);
+		assert.equal(invalid.reason, invalid.error.reason);
+	});
+
+	it('rejects trailing bytes', () => {
+		const buffer = new BinaryWriter().encode(1);
+		const result = validate(new Uint8Array([...buffer, 0, 0]));
+
+		assert.equal(result.valid, false);
+		assert.equal(result.offset, buffer.length);
+		assert.equal(result.reason, 'Unexpected 2 bytes after object');
+	});
+
+	it('applies reader limits', () => {
+		const result = validate(new BinaryWriter().encode([1, 2, 3]), { maxVectorLength: 2 });
+
+		assert.equal(result.valid, false);
+		assert.equal(result.error.name, 'LimitExceededError');
+	});
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { ReadableStream } from 'node:stream/web';
+import { describe, it } from 'node:test';
+import { IncompleteDataError } from '../dist/index.js';
+import { TLDecoderStream, TLEncoderStream } from '../dist/web.js';
+
+const VALUES = [{ id: 1, name: 'Andrew' }, 'text', [1, 2, 3], null, { a: { b: true } }];
+
+function streamOf(chunks) {
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) controller.enqueue(chunk);
+			controller.close();
+		},
+	});
+}
+
+async function collect(stream) {
+	const result = [];
+
+	for await (const chunk of stream) {
+		result.push(chunk);
+	}
+
+	return result;
+}
+
+describe('web streams', () => {
+	it('round-trips values', async () => {
+		const encoder = new TLEncoderStream();
+		const values = await collect(
+			streamOf(VALUES).pipeThrough(encoder).pipeThrough(new TLDecoderStream()),
+		);
+
+		assert.deepEqual(values, VALUES);
+		assert.equal(encoder.count, VALUES.length);
+	});
+
+	it('decodes chunks of any boundaries', async () => {
+		const chunks = await collect(streamOf(VALUES).pipeThrough(new TLEncoderStream()));
+		const bytes = Buffer.concat(chunks);
+		const split = [];
+
+		for (let i = 0; i < bytes.length; i += 3) {
+			split.push(new Uint8Array(bytes.subarray(i, i + 3)));
+		}
+
+		assert.deepEqual(await collect(streamOf(split).pipeThrough(new TLDecoderStream())), VALUES);
+	});
+
+	it('errors on truncated input', async () => {
+		const chunks = await collect(streamOf(VALUES).pipeThrough(new TLEncoderStream()));
+		const bytes = Buffer.concat(chunks);
+
+		await assert.rejects(
+			collect(
+				streamOf([new Uint8Array(bytes.subarray(0, bytes.length - 4))]).pipeThrough(
+					new TLDecoderStream(),
+				),
+			),
+			IncompleteDataError,
+		);
+	});
+});